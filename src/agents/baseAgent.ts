@@ -1,37 +1,114 @@
 /**
  * Base Agent Class
  * Abstract base class that all agents extend from
- * Supports OpenRouter (100+ models), Anthropic, and OpenAI
+ * Talks to models through an LLMProvider (OpenRouter, Anthropic, OpenAI, ...)
  * Now with tool calling capabilities!
  * Includes context management for long conversations
  * Includes retry with exponential backoff and timeouts
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
 import { 
   AgentConfig, 
   AgentRole, 
   AgentResponse, 
-  AgentMessage 
+  AgentMessage,
+  ToolBudget
 } from '../types/index.js';
-import { getOpenRouterApiKey, getAnthropicApiKey, getOpenAIApiKey, getAvailableProvider } from '../config/index.js';
+import { getDefaultToolBudget } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { toolRegistry, registerAllTools } from '../tools/index.js';
+import { toolRegistry, registerAllTools, resetReadTracking, truncateToolResult, ToolDefinition } from '../tools/index.js';
 import { ContextManager, getModelConfig, formatTokenCount } from '../context/index.js';
 import { withRetry, withTimeout, TimeoutError } from '../utils/robustness.js';
+import { LLMProvider, ChatRequest, ChatResponse, ProviderMessage, ProviderToolCall, providerRegistry } from '../providers/index.js';
 
 // Default timeout for API calls (2 minutes)
 const DEFAULT_API_TIMEOUT = 120000;
 
+// How often a streaming request checks whether the user pressed Ctrl+C
+const ABORT_POLL_INTERVAL = 100;
+
+// Share of a token/time budget after which the model is told to wrap up
+const BUDGET_WARNING_RATIO = 0.8;
+
+/**
+ * Check a tool loop against its budget: the limit it has hit, or the one it is close to
+ */
+function checkToolBudget(
+  budget: ToolBudget,
+  rounds: number,
+  tokensUsed: number,
+  elapsedMs: number
+): { exhausted?: string; warning?: string } {
+  if (rounds >= budget.maxIterations) {
+    return { exhausted: `${budget.maxIterations} tool rounds` };
+  }
+  if (budget.maxTokens && tokensUsed >= budget.maxTokens) {
+    return { exhausted: `${formatTokenCount(budget.maxTokens)} tokens` };
+  }
+  if (budget.maxDurationMs && elapsedMs >= budget.maxDurationMs) {
+    return { exhausted: `${Math.round(budget.maxDurationMs / 1000)}s` };
+  }
+
+  const roundsLeft = budget.maxIterations - rounds;
+  if (roundsLeft <= 2) {
+    return { warning: `${roundsLeft} tool round${roundsLeft === 1 ? '' : 's'} left` };
+  }
+  if (budget.maxTokens && tokensUsed >= budget.maxTokens * BUDGET_WARNING_RATIO) {
+    return { warning: `${Math.round((tokensUsed / budget.maxTokens) * 100)}% of the token budget used` };
+  }
+  if (budget.maxDurationMs && elapsedMs >= budget.maxDurationMs * BUDGET_WARNING_RATIO) {
+    return { warning: `${Math.round((elapsedMs / budget.maxDurationMs) * 100)}% of the time budget used` };
+  }
+  return {};
+}
+
 export type StreamCallback = (chunk: string, done: boolean) => void;
 
+/**
+ * Replays progress from concurrent tool calls in call order.
+ * The earliest unfinished call streams live; later calls are buffered until it finishes.
+ */
+class OrderedProgress {
+  private channels: Array<{ buffer: string[]; closed: boolean }> = [];
+  private head = 0;
+
+  constructor(private onChunk: StreamCallback) {}
+
+  open(): { emit: (chunk: string) => void; close: () => void } {
+    const index = this.channels.length;
+    const channel = { buffer: [] as string[], closed: false };
+    this.channels.push(channel);
+
+    return {
+      emit: (chunk) => {
+        if (index === this.head) {
+          this.onChunk(chunk, false);
+        } else {
+          channel.buffer.push(chunk);
+        }
+      },
+      close: () => {
+        channel.closed = true;
+        this.advance();
+      }
+    };
+  }
+
+  private advance(): void {
+    while (this.head < this.channels.length && this.channels[this.head].closed) {
+      this.head++;
+      const next = this.channels[this.head];
+      if (next) {
+        next.buffer.forEach(chunk => this.onChunk(chunk, false));
+        next.buffer = [];
+      }
+    }
+  }
+}
+
 export abstract class BaseAgent {
   protected config: AgentConfig;
-  protected anthropic: Anthropic | null = null;
-  protected openai: OpenAI | null = null;
-  protected openrouter: OpenAI | null = null;
-  protected provider: 'openrouter' | 'anthropic' | 'openai' | null = null;
+  protected provider: LLMProvider | null = null;
   protected conversationHistory: AgentMessage[] = [];
   protected isInitialized: boolean = false;
   
@@ -71,41 +148,15 @@ export abstract class BaseAgent {
   }
 
   /**
-   * Initialize the API client
-   * Priority: OpenRouter > Anthropic > OpenAI
+   * Initialize the LLM provider
+   * AHURA_PROVIDER picks one explicitly, otherwise: OpenRouter > Anthropic > OpenAI
    */
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
     try {
-      this.provider = getAvailableProvider();
-      
-      if (this.provider === 'openrouter') {
-        // OpenRouter - supports 100+ models via OpenAI-compatible API
-        this.openrouter = new OpenAI({
-          apiKey: getOpenRouterApiKey(),
-          baseURL: 'https://openrouter.ai/api/v1',
-          defaultHeaders: {
-            'HTTP-Referer': 'https://ahurasense.com',
-            'X-Title': 'Ahura CLI'
-          }
-        });
-        logger.debug(`${this.config.name} initialized with OpenRouter (${this.config.model})`, this.config.role);
-      } else if (this.provider === 'anthropic') {
-        // Direct Anthropic API
-        this.anthropic = new Anthropic({
-          apiKey: getAnthropicApiKey()
-        });
-        logger.debug(`${this.config.name} initialized with Anthropic (${this.config.model})`, this.config.role);
-      } else if (this.provider === 'openai') {
-        // Direct OpenAI API
-        this.openai = new OpenAI({
-          apiKey: getOpenAIApiKey()
-        });
-        logger.debug(`${this.config.name} initialized with OpenAI (${this.config.model})`, this.config.role);
-      } else {
-        throw new Error('No API key found. Set OPENROUTER_API_KEY, ANTHROPIC_API_KEY, or OPENAI_API_KEY');
-      }
+      this.provider = providerRegistry.createDefault();
+      logger.debug(`${this.config.name} initialized with ${this.provider.name} (${this.config.model})`, this.config.role);
       
       this.isInitialized = true;
     } catch (error) {
@@ -143,6 +194,90 @@ export abstract class BaseAgent {
     return this.config.systemPrompt;
   }
 
+  /**
+   * Tool-loop limits: environment defaults with this agent's overrides applied
+   */
+  getToolBudget(): ToolBudget {
+    return { ...getDefaultToolBudget(), ...this.config.toolBudget };
+  }
+
+  /**
+   * Override tool-loop limits for this agent
+   */
+  setToolBudget(budget: Partial<ToolBudget>): void {
+    this.config.toolBudget = { ...this.config.toolBudget, ...budget };
+  }
+
+  /**
+   * Get the initialized provider (throws before initialize())
+   */
+  protected getProvider(): LLMProvider {
+    if (!this.provider) throw new Error('No API client initialized');
+    return this.provider;
+  }
+
+  /**
+   * Build a request with this agent's model, system prompt and sampling settings
+   */
+  private buildRequest(messages: ProviderMessage[], tools?: ToolDefinition[]): ChatRequest {
+    return {
+      model: this.config.model,
+      system: this.config.systemPrompt,
+      maxTokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      messages,
+      tools
+    };
+  }
+
+  /**
+   * Non-streaming provider call with retry and timeout
+   */
+  private async complete(request: ChatRequest): Promise<ChatResponse> {
+    const provider = this.getProvider();
+
+    return withRetry(
+      () => withTimeout(provider.chat(request), this.apiTimeout, `${provider.name} API call`),
+      { maxRetries: this.maxRetries }
+    );
+  }
+
+  /**
+   * Streaming provider call that is cancelled when the user aborts.
+   * Retries only until the first output arrives - after that a retry would repeat what the user has seen.
+   */
+  private async streamTurn(
+    request: ChatRequest,
+    onText: (text: string) => void,
+    onToolCall?: (call: ProviderToolCall) => void
+  ): Promise<ChatResponse> {
+    const provider = this.getProvider();
+    const controller = new AbortController();
+    const abortPoll = setInterval(() => {
+      if (toolRegistry.isAborted()) controller.abort();
+    }, ABORT_POLL_INTERVAL);
+    let started = false;
+
+    try {
+      return await withRetry(
+        () => provider.stream(
+          { ...request, signal: controller.signal },
+          (text) => {
+            started = true;
+            onText(text);
+          },
+          onToolCall ? (call) => {
+            started = true;
+            onToolCall(call);
+          } : undefined
+        ),
+        { maxRetries: this.maxRetries, shouldRetry: () => !started && !controller.signal.aborted }
+      );
+    } finally {
+      clearInterval(abortPoll);
+    }
+  }
+
   /**
    * Quick one-shot completion without history/context management
    * Used for lightweight tasks like generating summaries
@@ -150,39 +285,15 @@ export abstract class BaseAgent {
   async quickCompletion(prompt: string): Promise<string> {
     await this.initialize();
     
-    const messages = [
-      { role: 'system' as const, content: 'You are a helpful assistant. Be concise. Respond only with valid JSON.' },
-      { role: 'user' as const, content: prompt }
-    ];
-
-    if (this.provider === 'openrouter' && this.openrouter) {
-      const response = await this.openrouter.chat.completions.create({
-        model: this.config.model,
-        messages,
-        max_tokens: 200,
-        temperature: 0.3
-      });
-      return response.choices[0]?.message?.content || '';
-    } else if (this.provider === 'anthropic' && this.anthropic) {
-      const response = await this.anthropic.messages.create({
-        model: this.config.model,
-        max_tokens: 200,
-        messages: [{ role: 'user', content: prompt }],
-        system: 'You are a helpful assistant. Be concise. Respond only with valid JSON.'
-      });
-      const textBlock = response.content.find(b => b.type === 'text');
-      return textBlock && 'text' in textBlock ? textBlock.text : '';
-    } else if (this.provider === 'openai' && this.openai) {
-      const response = await this.openai.chat.completions.create({
-        model: this.config.model,
-        messages,
-        max_tokens: 200,
-        temperature: 0.3
-      });
-      return response.choices[0]?.message?.content || '';
-    }
+    const response = await this.getProvider().chat({
+      model: this.config.model,
+      system: 'You are a helpful assistant. Be concise. Respond only with valid JSON.',
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: 200,
+      temperature: 0.3
+    });
     
-    return '';
+    return response.content;
   }
 
   /**
@@ -214,28 +325,14 @@ export abstract class BaseAgent {
           : userMessage;
       }
 
-      let responseContent = '';
-      let tokensUsed = 0;
-
-      if (this.openrouter) {
-        // OpenRouter (primary)
-        const result = await this.callOpenRouterStream(fullMessage, onChunk);
-        responseContent = result.content;
-        tokensUsed = result.tokensUsed;
-      } else if (this.anthropic) {
-        // Direct Anthropic
-        const result = await this.callAnthropicStream(fullMessage, onChunk);
-        responseContent = result.content;
-        tokensUsed = result.tokensUsed;
-      } else if (this.openai) {
-        // Direct OpenAI
-        const result = await this.callOpenAIStream(fullMessage, onChunk);
-        responseContent = result.content;
-        tokensUsed = result.tokensUsed;
-      } else {
-        throw new Error('No API client initialized');
-      }
+      const response = await this.streamTurn(
+        this.buildRequest([{ role: 'user', content: fullMessage }]),
+        (text) => onChunk(text, false)
+      );
+      onChunk('', true);
 
+      const responseContent = response.content;
+      const tokensUsed = response.usage.totalTokens;
       const duration = Date.now() - startTime;
 
       // Add assistant response to context manager
@@ -271,105 +368,6 @@ export abstract class BaseAgent {
     }
   }
 
-  /**
-   * OpenRouter streaming call (supports 100+ models)
-   */
-  private async callOpenRouterStream(message: string, onChunk: StreamCallback): Promise<{ content: string; tokensUsed: number }> {
-    if (!this.openrouter) throw new Error('OpenRouter client not initialized');
-
-    let content = '';
-    let tokensUsed = 0;
-
-    const stream = await this.openrouter.chat.completions.create({
-      model: this.config.model,
-      max_tokens: this.config.maxTokens,
-      temperature: this.config.temperature,
-      messages: [
-        { role: 'system', content: this.config.systemPrompt },
-        { role: 'user', content: message }
-      ],
-      stream: true
-    });
-
-    for await (const chunk of stream) {
-      const text = chunk.choices[0]?.delta?.content || '';
-      if (text) {
-        content += text;
-        onChunk(text, false);
-      }
-      // OpenRouter returns usage in the final chunk
-      if (chunk.usage) {
-        tokensUsed = (chunk.usage.prompt_tokens || 0) + (chunk.usage.completion_tokens || 0);
-      }
-    }
-
-    onChunk('', true);
-    return { content, tokensUsed };
-  }
-
-  /**
-   * Anthropic streaming call
-   */
-  private async callAnthropicStream(message: string, onChunk: StreamCallback): Promise<{ content: string; tokensUsed: number }> {
-    if (!this.anthropic) throw new Error('Anthropic client not initialized');
-
-    let content = '';
-    let tokensUsed = 0;
-
-    const stream = this.anthropic.messages.stream({
-      model: this.config.model,
-      max_tokens: this.config.maxTokens,
-      temperature: this.config.temperature,
-      system: this.config.systemPrompt,
-      messages: [{ role: 'user', content: message }]
-    });
-
-    for await (const event of stream) {
-      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-        const chunk = event.delta.text;
-        content += chunk;
-        onChunk(chunk, false);
-      }
-    }
-
-    const finalMessage = await stream.finalMessage();
-    tokensUsed = finalMessage.usage.input_tokens + finalMessage.usage.output_tokens;
-    
-    onChunk('', true);
-    return { content, tokensUsed };
-  }
-
-  /**
-   * OpenAI streaming call
-   */
-  private async callOpenAIStream(message: string, onChunk: StreamCallback): Promise<{ content: string; tokensUsed: number }> {
-    if (!this.openai) throw new Error('OpenAI client not initialized');
-
-    let content = '';
-
-    const stream = await this.openai.chat.completions.create({
-      model: this.config.model,
-      max_tokens: this.config.maxTokens,
-      temperature: this.config.temperature,
-      messages: [
-        { role: 'system', content: this.config.systemPrompt },
-        { role: 'user', content: message }
-      ],
-      stream: true
-    });
-
-    for await (const chunk of stream) {
-      const text = chunk.choices[0]?.delta?.content || '';
-      if (text) {
-        content += text;
-        onChunk(text, false);
-      }
-    }
-
-    onChunk('', true);
-    return { content, tokensUsed: 0 }; // OpenAI doesn't return token count in streaming
-  }
-
   /**
    * Non-streaming chat (original method)
    */
@@ -399,25 +397,9 @@ export abstract class BaseAgent {
           : userMessage;
       }
 
-      let responseContent: string;
-      let tokensUsed: number | undefined;
-
-      if (this.openrouter) {
-        const response = await this.callOpenRouter(fullMessage);
-        responseContent = response.content;
-        tokensUsed = response.tokensUsed;
-      } else if (this.anthropic) {
-        const response = await this.callAnthropic(fullMessage);
-        responseContent = response.content;
-        tokensUsed = response.tokensUsed;
-      } else if (this.openai) {
-        const response = await this.callOpenAI(fullMessage);
-        responseContent = response.content;
-        tokensUsed = response.tokensUsed;
-      } else {
-        throw new Error('No API client initialized');
-      }
-
+      const response = await this.complete(this.buildRequest([{ role: 'user', content: fullMessage }]));
+      const responseContent = response.content;
+      const tokensUsed = response.usage.totalTokens;
       const duration = Date.now() - startTime;
 
       // Add assistant response to context manager
@@ -451,92 +433,6 @@ export abstract class BaseAgent {
     }
   }
 
-  /**
-   * Non-streaming OpenRouter call with retry and timeout
-   */
-  private async callOpenRouter(message: string): Promise<{ content: string; tokensUsed: number }> {
-    if (!this.openrouter) throw new Error('OpenRouter client not initialized');
-
-    return withRetry(async () => {
-      const response = await withTimeout(
-        this.openrouter!.chat.completions.create({
-          model: this.config.model,
-          max_tokens: this.config.maxTokens,
-          temperature: this.config.temperature,
-          messages: [
-            { role: 'system', content: this.config.systemPrompt },
-            { role: 'user', content: message }
-          ]
-        }),
-        this.apiTimeout,
-        'OpenRouter API call'
-      );
-
-      const content = response.choices[0]?.message?.content || '';
-      const tokensUsed = response.usage?.total_tokens || 0;
-
-      return { content, tokensUsed };
-    }, { maxRetries: this.maxRetries });
-  }
-
-  /**
-   * Non-streaming Anthropic call with retry and timeout
-   */
-  private async callAnthropic(message: string): Promise<{ content: string; tokensUsed: number }> {
-    if (!this.anthropic) throw new Error('Anthropic client not initialized');
-
-    return withRetry(async () => {
-      const response = await withTimeout(
-        this.anthropic!.messages.create({
-          model: this.config.model,
-          max_tokens: this.config.maxTokens,
-          temperature: this.config.temperature,
-          system: this.config.systemPrompt,
-          messages: [{ role: 'user', content: message }]
-        }),
-        this.apiTimeout,
-        'Anthropic API call'
-      );
-
-      const content = response.content[0].type === 'text' 
-        ? response.content[0].text 
-        : '';
-
-      return {
-        content,
-        tokensUsed: response.usage.input_tokens + response.usage.output_tokens
-      };
-    }, { maxRetries: this.maxRetries });
-  }
-
-  /**
-   * Non-streaming OpenAI call with retry and timeout
-   */
-  private async callOpenAI(message: string): Promise<{ content: string; tokensUsed: number }> {
-    if (!this.openai) throw new Error('OpenAI client not initialized');
-
-    return withRetry(async () => {
-      const response = await withTimeout(
-        this.openai!.chat.completions.create({
-          model: this.config.model,
-          max_tokens: this.config.maxTokens,
-          temperature: this.config.temperature,
-          messages: [
-            { role: 'system', content: this.config.systemPrompt },
-            { role: 'user', content: message }
-          ]
-        }),
-        this.apiTimeout,
-        'OpenAI API call'
-      );
-
-      const content = response.choices[0]?.message?.content || '';
-      const tokensUsed = response.usage?.total_tokens || 0;
-
-      return { content, tokensUsed };
-    }, { maxRetries: this.maxRetries });
-  }
-
   /**
    * Clear conversation history (for context management)
    */
@@ -547,63 +443,40 @@ export abstract class BaseAgent {
 
   /**
    * Chat with vision - analyze images with streaming
-   * Uses Claude's vision capability to understand images
+   * Uses the provider's vision model when it has one, otherwise the agent's model
    */
   async chatWithVision(userMessage: string, imageBase64: string, imageMimeType: string, onChunk: StreamCallback): Promise<AgentResponse> {
     await this.initialize();
     const startTime = Date.now();
 
     try {
-      if (!this.openrouter) {
-        throw new Error('Vision requires OpenRouter with Claude model');
+      const provider = this.getProvider();
+      const model = provider.visionModel || this.config.model;
+      const capabilities = await provider.getCapabilities(model);
+      if (!capabilities.vision) {
+        throw new Error(`Vision is not supported by ${model} (${provider.name})`);
       }
 
-      // Use Claude Sonnet for vision WITH STREAMING
-      const stream = await this.openrouter.chat.completions.create({
-        model: 'anthropic/claude-sonnet-4',
-        max_tokens: 4096,
-        stream: true,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image_url',
-                image_url: {
-                  url: `data:${imageMimeType};base64,${imageBase64}`
-                }
-              },
-              {
-                type: 'text',
-                text: userMessage
-              }
-            ]
-          }
-        ]
-      });
-
-      let content = '';
-      let tokensUsed = 0;
-
-      for await (const chunk of stream) {
-        const delta = chunk.choices?.[0]?.delta?.content || '';
-        if (delta) {
-          content += delta;
-          onChunk(delta, false);
-        }
-        if (chunk.usage?.total_tokens) {
-          tokensUsed = chunk.usage.total_tokens;
-        }
-      }
+      const response = await provider.stream({
+        model,
+        maxTokens: 4096,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'image', mimeType: imageMimeType, data: imageBase64 },
+            { type: 'text', text: userMessage }
+          ]
+        }]
+      }, (text) => onChunk(text, false));
 
       onChunk('', true);
 
       return {
         success: true,
-        content,
+        content: response.content,
         agentName: this.config.name,
         role: this.config.role,
-        tokensUsed,
+        tokensUsed: response.usage.totalTokens,
         duration: Date.now() - startTime
       };
     } catch (error) {
@@ -632,6 +505,9 @@ export abstract class BaseAgent {
     if (enableTools && toolRegistry.getAll().length === 0) {
       registerAllTools();
     }
+    
+    // Each turn must read files before it may overwrite them
+    resetReadTracking();
 
     const startTime = Date.now();
 
@@ -656,32 +532,10 @@ export abstract class BaseAgent {
           : userMessage;
       }
 
-      let responseContent = '';
-      let tokensUsed = 0;
-      let toolsUsed: string[] = [];
-
-      // Get tools in OpenAI format
-      const tools = enableTools ? toolRegistry.getOpenAIFormat() : undefined;
-      
-      if (this.openrouter) {
-        const result = await this.callOpenRouterWithTools(fullMessage, onChunk, tools);
-        responseContent = result.content;
-        tokensUsed = result.tokensUsed;
-        toolsUsed = result.toolsUsed;
-      } else if (this.openai) {
-        const result = await this.callOpenAIWithTools(fullMessage, onChunk, tools);
-        responseContent = result.content;
-        tokensUsed = result.tokensUsed;
-        toolsUsed = result.toolsUsed;
-      } else if (this.anthropic) {
-        // Anthropic uses different tool format - fall back to non-tool streaming
-        const result = await this.callAnthropicStream(fullMessage, onChunk);
-        responseContent = result.content;
-        tokensUsed = result.tokensUsed;
-      } else {
-        throw new Error('No API client initialized');
-      }
-
+      const result = await this.runToolLoop(fullMessage, onChunk, enableTools ? toolRegistry.getAll() : undefined);
+      const responseContent = result.content;
+      const tokensUsed = result.tokensUsed;
+      const toolsUsed = result.toolsUsed;
       const duration = Date.now() - startTime;
 
       // Add assistant response to context manager
@@ -701,7 +555,8 @@ export abstract class BaseAgent {
         role: this.config.role,
         tokensUsed,
         duration,
-        toolsUsed
+        toolsUsed,
+        budgetExhausted: result.budgetExhausted
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -719,145 +574,127 @@ export abstract class BaseAgent {
   }
 
   /**
-   * OpenRouter call with tool support
+   * Multi-turn tool calling loop - identical for every provider.
+   * Text streams as it is generated, and each tool starts as soon as its arguments are complete.
    */
-  private async callOpenRouterWithTools(
+  private async runToolLoop(
     message: string, 
     onChunk: StreamCallback, 
-    tools?: OpenAI.Chat.Completions.ChatCompletionTool[]
-  ): Promise<{ content: string; tokensUsed: number; toolsUsed: string[] }> {
-    if (!this.openrouter) throw new Error('OpenRouter client not initialized');
-
+    tools?: ToolDefinition[]
+  ): Promise<{ content: string; tokensUsed: number; toolsUsed: string[]; budgetExhausted?: string }> {
     let content = '';
     let tokensUsed = 0;
-    let toolsUsed: string[] = [];
-    let messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-      { role: 'system', content: this.config.systemPrompt },
+    const toolsUsed: string[] = [];
+    const messages: ProviderMessage[] = [
       { role: 'user', content: message }
     ];
 
-    // Loop for multi-turn tool calling
-    let maxIterations = 10;
-    while (maxIterations-- > 0) {
-      const response = await this.openrouter.chat.completions.create({
-        model: this.config.model,
-        max_tokens: this.config.maxTokens,
-        temperature: this.config.temperature,
-        messages,
-        tools: tools && tools.length > 0 ? tools : undefined
-      });
-
-      const choice = response.choices[0];
-      const assistantMessage = choice.message;
-      
-      // Track token usage
-      if (response.usage) {
-        tokensUsed += (response.usage.prompt_tokens || 0) + (response.usage.completion_tokens || 0);
-      }
+    const budget = this.getToolBudget();
+    const loopStart = Date.now();
+    let rounds = 0;
+    let budgetExhausted: string | undefined;
+
+    while (true) {
+      // Read-only tools run concurrently; any other tool waits for every earlier call
+      // and blocks later ones. Progress is replayed in call order either way.
+      const results: Map<string, Promise<ProviderMessage>> = new Map();
+      const progress = new OrderedProgress(onChunk);
+      let barrier: Promise<unknown> = Promise.resolve();
+      let concurrent: Promise<unknown>[] = [];
+      const startToolCall = (toolCall: ProviderToolCall) => {
+        if (results.has(toolCall.id)) return;
+        const output = progress.open();
+        const execute = () => this.executeToolCall(toolCall, output.emit).finally(output.close);
+
+        let run: Promise<ProviderMessage>;
+        if (toolRegistry.get(toolCall.name)?.readOnly) {
+          run = barrier.then(execute);
+          concurrent.push(run);
+        } else {
+          run = Promise.all([barrier, ...concurrent]).then(execute);
+          barrier = run;
+          concurrent = [];
+        }
+        results.set(toolCall.id, run);
+      };
 
-      // Check for tool calls
-      if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-        // Add assistant message with tool calls
-        messages.push(assistantMessage);
-
-        // Track files created/modified for summary
-        const filesCreated: string[] = [];
-        const filesModified: string[] = [];
-        const commandsRun: string[] = [];
-
-        // Process each tool call
-        for (const toolCall of assistantMessage.tool_calls) {
-          const toolName = toolCall.function.name;
-          const toolArgs = JSON.parse(toolCall.function.arguments || '{}');
-          
-          toolsUsed.push(toolName);
-          
-          // Show progress with tool info
-          const progressInfo = this.getToolProgressInfo(toolName, toolArgs);
-          if (progressInfo) {
-            onChunk(`__TOOL__${progressInfo}`, false);
-          }
-          
-          // Execute tool
-          const toolResult = await toolRegistry.execute(toolName, toolArgs);
-          const resultStr = toolResult.success 
-            ? (typeof toolResult.data === 'string' ? toolResult.data : JSON.stringify(toolResult.data, null, 2))
-            : `Error: ${toolResult.error}`;
-          
-          // Helper for relative paths from cwd (like Claude Code)
-          const getRelPath = (p: string) => {
-            if (!p) return 'file';
-            const cwd = process.cwd().replace(/\\/g, '/');
-            const norm = p.replace(/\\/g, '/');
-            if (norm.startsWith(cwd)) {
-              const rel = norm.substring(cwd.length);
-              return rel.startsWith('/') ? rel.substring(1) : rel;
-            }
-            // Find common base
-            const cwdParts = cwd.split('/').filter(x => x);
-            const fileParts = norm.split('/').filter(x => x);
-            let common = 0;
-            for (let i = 0; i < Math.min(cwdParts.length, fileParts.length); i++) {
-              if (cwdParts[i].toLowerCase() === fileParts[i].toLowerCase()) common = i + 1;
-              else break;
-            }
-            if (common > 0) return fileParts.slice(common).join('/');
-            return fileParts.slice(-3).join('/');
-          };
-          
-          // Track what was done
-          if (toolName === 'write_file' && toolResult.success) {
-            const filePath = toolArgs.path || toolArgs.file_path || 'file';
-            // Check if file existed (modified) or was new (created)
-            if (resultStr.includes('created') || resultStr.includes('Created')) {
-              filesCreated.push(filePath);
-            } else {
-              filesModified.push(filePath);
-            }
-          } else if (toolName === 'run_command' && toolResult.success) {
-            commandsRun.push(toolArgs.command || '');
-          }
-          
-          // Add tool result to messages
-          messages.push({
-            role: 'tool',
-            tool_call_id: toolCall.id,
-            content: resultStr.substring(0, 8000) // Limit tool output
-          });
-          
-          // Show immediate feedback after file operations with proper path
-          if (toolResult.success) {
-            const filePath = toolArgs.path || toolArgs.file_path || '';
-            const relPath = getRelPath(filePath);
-            
-            if (toolName === 'write_file') {
-              const isNew = resultStr.includes('created') || resultStr.includes('Created');
-              onChunk(`__TOOL__${isNew ? '✅ Created' : '📝 Updated'}: ${relPath}`, false);
-            } else if (toolName === 'delete_file') {
-              onChunk(`__TOOL__🗑️  Deleted: ${relPath}`, false);
-            } else if (toolName === 'rename_file' || toolName === 'move_file') {
-              const toPath = toolArgs.to || toolArgs.destination || toolArgs.new_path || '';
-              onChunk(`__TOOL__📦 Moved: ${relPath} → ${getRelPath(toPath)}`, false);
-            } else if (toolName === 'copy_file') {
-              const destPath = toolArgs.destination || toolArgs.to || '';
-              onChunk(`__TOOL__📋 Copied: ${relPath} → ${getRelPath(destPath)}`, false);
-            } else if (toolName === 'create_directory' || toolName === 'mkdir') {
-              onChunk(`__TOOL__📁 Created folder: ${relPath}/`, false);
-            }
+      let turnText = '';
+      let response: ChatResponse;
+      try {
+        response = await this.streamTurn(
+          this.buildRequest(messages, tools),
+          (text) => {
+            turnText += text;
+            onChunk(text, false);
+          },
+          startToolCall
+        );
+      } catch (error) {
+        // Let tools that already started finish (they stop early on abort too)
+        await Promise.all(results.values());
+        if (toolRegistry.isAborted()) {
+          content = turnText;
+          onChunk('__TOOL__⏹️  Stopped', false);
+          break;
+        }
+        throw error;
+      }
+      tokensUsed += response.usage.totalTokens;
+
+      if (response.toolCalls.length > 0) {
+        // Assistant turn must be sent back with its tool calls intact
+        messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+
+        // Cut off by the output limit - calls that haven't started may be incomplete, so none of them run
+        const truncated = response.stopReason === 'length' || response.stopReason === 'max_tokens';
+        for (const toolCall of response.toolCalls) {
+          if (truncated && !results.has(toolCall.id)) {
+            results.set(toolCall.id, Promise.resolve(this.refuseTruncatedCall(toolCall, onChunk)));
+          } else {
+            startToolCall(toolCall);
           }
+          toolsUsed.push(toolCall.name);
+        }
+        for (const toolCall of response.toolCalls) {
+          messages.push(await results.get(toolCall.id)!);
+        }
+
+        // Keep text from separate turns on separate lines
+        if (turnText && !turnText.endsWith('\n')) {
+          onChunk('\n', false);
+        }
+
+        if (toolRegistry.isAborted()) {
+          onChunk('__TOOL__⏹️  Stopped', false);
+          break;
+        }
+
+        rounds++;
+        const { exhausted, warning } = checkToolBudget(budget, rounds, tokensUsed, Date.now() - loopStart);
+
+        if (exhausted) {
+          budgetExhausted = exhausted;
+          content = await this.wrapUpToolLoop(messages, tools, exhausted, onChunk, (tokens) => { tokensUsed += tokens; });
+          break;
+        }
+
+        // Close to the limit - let the model know so it can finish on its own
+        const lastResult = messages[messages.length - 1];
+        if (warning && lastResult.role === 'tool') {
+          lastResult.content += `\n\n[Budget: ${warning}. Finish the current step, then summarize for the user.]`;
         }
         
         // Show what's happening next based on tools used
         const lastTool = toolsUsed[toolsUsed.length - 1];
-        const hasWritten = toolsUsed.includes('write_file');
-        const onlyReading = toolsUsed.every(t => t === 'read_file' || t === 'list_directory' || t === 'search_in_files' || t === 'file_exists');
+        const hasWritten = toolsUsed.includes('write_file') || toolsUsed.includes('edit_file');
+        const onlyReading = toolsUsed.every(t => t === 'read_file' || t === 'list_directory' || t === 'glob_files' || t === 'search_in_files' || t === 'file_exists');
         
         if (lastTool === 'run_command') {
           onChunk('__TOOL__✅ Command completed', false);
         } else if (onlyReading) {
           // Only read operations - we're analyzing, not changing
           onChunk('__TOOL__🧠 Analyzing...', false);
-        } else if (hasWritten && lastTool !== 'write_file') {
+        } else if (hasWritten && lastTool !== 'write_file' && lastTool !== 'edit_file') {
           // Already wrote something, continuing with other work
           onChunk('__TOOL__🧠 Continuing...', false);
         } else if (!hasWritten) {
@@ -868,241 +705,214 @@ export abstract class BaseAgent {
         continue;
       }
 
-      // No more tool calls - stream the final response
-      if (assistantMessage.content) {
-        content = assistantMessage.content;
-        // Signal that response is ready
-        onChunk('__TOOL__✨ Done', false);
-        // Don't stream character-by-character as it's too slow
-        // Just send the content directly
-        onChunk(content, false);
-      }
-      
+      // No more tool calls - the final answer has already been streamed
+      content = response.content;
       break;
     }
 
     onChunk('', true);
-    return { content, tokensUsed, toolsUsed };
+    return { content, tokensUsed, toolsUsed, budgetExhausted };
   }
 
   /**
-   * OpenAI call with tool support
+   * Out of budget - ask for a status summary instead of stopping mid-task with no answer
    */
-  private async callOpenAIWithTools(
-    message: string, 
-    onChunk: StreamCallback, 
-    tools?: OpenAI.Chat.Completions.ChatCompletionTool[]
-  ): Promise<{ content: string; tokensUsed: number; toolsUsed: string[] }> {
-    if (!this.openai) throw new Error('OpenAI client not initialized');
+  private async wrapUpToolLoop(
+    messages: ProviderMessage[],
+    tools: ToolDefinition[] | undefined,
+    exhausted: string,
+    onChunk: StreamCallback,
+    addTokens: (tokens: number) => void
+  ): Promise<string> {
+    onChunk(`__TOOL__⏳ Budget reached (${exhausted}) - summarizing...`, false);
+
+    messages.push({
+      role: 'user',
+      content: `You have reached the tool budget for this request (${exhausted}). Do not call any more tools. ` +
+        'Reply with a brief status for the user: what is done, what remains, and the next step.'
+    });
 
-    let content = '';
-    let tokensUsed = 0;
-    let toolsUsed: string[] = [];
-    let messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-      { role: 'system', content: this.config.systemPrompt },
-      { role: 'user', content: message }
-    ];
+    try {
+      // Tools stay in the request (Anthropic rejects tool history without them); any calls are ignored
+      const summary = await this.streamTurn(this.buildRequest(messages, tools), (text) => onChunk(text, false));
+      addTokens(summary.usage.totalTokens);
+      return summary.content || `Stopped after ${exhausted} before the task was finished.`;
+    } catch (error) {
+      if (!toolRegistry.isAborted()) throw error;
+      onChunk('__TOOL__⏹️  Stopped', false);
+      return '';
+    }
+  }
 
-    let maxIterations = 10;
-    while (maxIterations-- > 0) {
-      const response = await this.openai.chat.completions.create({
-        model: this.config.model,
-        max_tokens: this.config.maxTokens,
-        temperature: this.config.temperature,
-        messages,
-        tools: tools && tools.length > 0 ? tools : undefined
-      });
-
-      const choice = response.choices[0];
-      const assistantMessage = choice.message;
-      
-      if (response.usage) {
-        tokensUsed += response.usage.total_tokens || 0;
-      }
+  /**
+   * Tool message for a call that was cut off by the output token limit
+   */
+  private refuseTruncatedCall(toolCall: ProviderToolCall, onChunk: StreamCallback): ProviderMessage {
+    onChunk(`__TOOL__⚠️  ${toolCall.name}: output was cut off, not running it`, false);
+    return {
+      role: 'tool',
+      toolCallId: toolCall.id,
+      name: toolCall.name,
+      content: 'Error: your output hit the token limit before this tool call was complete, so it was not run. ' +
+        'Send the call again. If its arguments are large (e.g. a whole file), split the work into smaller calls.',
+      isError: true
+    };
+  }
 
-      if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-        messages.push(assistantMessage);
-
-        for (const toolCall of assistantMessage.tool_calls) {
-          const toolName = toolCall.function.name;
-          const toolArgs = JSON.parse(toolCall.function.arguments || '{}');
-          
-          toolsUsed.push(toolName);
-          
-          // Show progress with tool info
-          const progressInfo = this.getToolProgressInfo(toolName, toolArgs);
-          if (progressInfo) {
-            onChunk(`__TOOL__${progressInfo}`, false);
-          }
-          
-          const toolResult = await toolRegistry.execute(toolName, toolArgs);
-          const resultStr = toolResult.success 
-            ? (typeof toolResult.data === 'string' ? toolResult.data : JSON.stringify(toolResult.data, null, 2))
-            : `Error: ${toolResult.error}`;
-          
-          messages.push({
-            role: 'tool',
-            tool_call_id: toolCall.id,
-            content: resultStr.substring(0, 8000)
-          });
-          
-          // Helper for relative paths from cwd (like Claude Code)
-          const getRelPath = (p: string) => {
-            if (!p) return 'file';
-            const cwd = process.cwd().replace(/\\/g, '/');
-            const norm = p.replace(/\\/g, '/');
-            if (norm.startsWith(cwd)) {
-              const rel = norm.substring(cwd.length);
-              return rel.startsWith('/') ? rel.substring(1) : rel;
-            }
-            // Find common base
-            const cwdParts = cwd.split('/').filter(x => x);
-            const fileParts = norm.split('/').filter(x => x);
-            let common = 0;
-            for (let i = 0; i < Math.min(cwdParts.length, fileParts.length); i++) {
-              if (cwdParts[i].toLowerCase() === fileParts[i].toLowerCase()) common = i + 1;
-              else break;
-            }
-            if (common > 0) return fileParts.slice(common).join('/');
-            return fileParts.slice(-3).join('/');
-          };
-          
-          // Show immediate feedback after file operations with proper path
-          if (toolResult.success) {
-            const filePath = toolArgs.path || toolArgs.file_path || '';
-            const relPath = getRelPath(filePath);
-            
-            if (toolName === 'write_file') {
-              const isNew = resultStr.includes('created') || resultStr.includes('Created');
-              onChunk(`__TOOL__${isNew ? '✅ Created' : '📝 Updated'}: ${relPath}`, false);
-            } else if (toolName === 'delete_file') {
-              onChunk(`__TOOL__🗑️  Deleted: ${relPath}`, false);
-            } else if (toolName === 'rename_file' || toolName === 'move_file') {
-              const toPath = toolArgs.to || toolArgs.destination || toolArgs.new_path || '';
-              onChunk(`__TOOL__📦 Moved: ${relPath} → ${getRelPath(toPath)}`, false);
-            } else if (toolName === 'copy_file') {
-              const destPath = toolArgs.destination || toolArgs.to || '';
-              onChunk(`__TOOL__📋 Copied: ${relPath} → ${getRelPath(destPath)}`, false);
-            } else if (toolName === 'create_directory' || toolName === 'mkdir') {
-              onChunk(`__TOOL__📁 Created folder: ${relPath}/`, false);
-            }
-          }
-        }
-        
-        // Show what's happening next based on tools used
-        const lastToolUsed = toolsUsed[toolsUsed.length - 1];
-        const hasWrittenFile = toolsUsed.includes('write_file');
-        const onlyReadOps = toolsUsed.every(t => t === 'read_file' || t === 'list_directory' || t === 'search_in_files' || t === 'file_exists');
-        
-        if (lastToolUsed === 'run_command') {
-          onChunk('__TOOL__✅ Command completed', false);
-        } else if (onlyReadOps) {
-          onChunk('__TOOL__🧠 Analyzing...', false);
-        } else if (!hasWrittenFile) {
-          onChunk('__TOOL__🧠 Thinking...', false);
-        }
-        
-        continue;
-      }
+  /**
+   * Run one tool call with progress output, returning the tool message for the model
+   */
+  private async executeToolCall(toolCall: ProviderToolCall, onChunk: StreamCallback): Promise<ProviderMessage> {
+    const toolName = toolCall.name;
+    const toolArgs = toolCall.arguments as Record<string, any>;
 
-      if (assistantMessage.content) {
-        content = assistantMessage.content;
-        // Signal progress and send content directly (not char-by-char)
-        onChunk('__TOOL__✨ Done', false);
-        onChunk(content, false);
-      }
+    // Unparseable arguments go straight back to the model so it can retry the call
+    if (toolCall.argumentsError) {
+      onChunk(`__TOOL__⚠️  ${toolName}: malformed arguments, asking the model to retry`, false);
+      return {
+        role: 'tool',
+        toolCallId: toolCall.id,
+        name: toolName,
+        content: `Error: ${toolCall.argumentsError}. Received: ${(toolCall.rawArguments || '').substring(0, 500)}\n` +
+          'Call the tool again with the arguments as a single valid JSON object.',
+        isError: true
+      };
+    }
+    
+    // Show progress with tool info
+    const progressInfo = this.getToolProgressInfo(toolName, toolArgs);
+    if (progressInfo) {
+      onChunk(`__TOOL__${progressInfo}`, false);
+    }
+    
+    const toolResult = await toolRegistry.execute(toolName, toolArgs, {
+      onProgress: (message) => onChunk(`__TOOL__${message}`, false)
+    });
+    const resultStr = toolResult.success 
+      ? (typeof toolResult.data === 'string' ? toolResult.data : JSON.stringify(toolResult.data, null, 2))
+      : `Error: ${toolResult.error}`;
+    
+    // Show immediate feedback after file operations with proper path
+    if (toolResult.success) {
+      const filePath = toolArgs.path || toolArgs.file_path || '';
+      const relPath = this.getRelPath(filePath);
       
-      break;
+      if (toolName === 'write_file') {
+        const isNew = resultStr.includes('created') || resultStr.includes('Created');
+        onChunk(`__TOOL__${isNew ? '✅ Created' : '📝 Updated'}: ${relPath}`, false);
+      } else if (toolName === 'edit_file') {
+        const stat = toolResult.data as { additions?: number; deletions?: number };
+        onChunk(`__TOOL__📝 Updated: ${relPath} (+${stat.additions ?? 0} -${stat.deletions ?? 0})`, false);
+      } else if (toolName === 'apply_patch') {
+        onChunk(`__TOOL__📝 ${resultStr.split('\n')[0]}`, false);
+      } else if (toolName === 'delete_file') {
+        onChunk(`__TOOL__🗑️  Deleted: ${relPath}`, false);
+      } else if (toolName === 'rename_file' || toolName === 'move_file') {
+        const toPath = toolArgs.to || toolArgs.destination || toolArgs.new_path || '';
+        onChunk(`__TOOL__📦 Moved: ${relPath} → ${this.getRelPath(toPath)}`, false);
+      } else if (toolName === 'copy_file') {
+        const destPath = toolArgs.destination || toolArgs.to || '';
+        onChunk(`__TOOL__📋 Copied: ${relPath} → ${this.getRelPath(destPath)}`, false);
+      } else if (toolName === 'create_directory' || toolName === 'mkdir') {
+        onChunk(`__TOOL__📁 Created folder: ${relPath}/`, false);
+      }
     }
 
-    onChunk('', true);
-    return { content, tokensUsed, toolsUsed };
+    return {
+      role: 'tool',
+      toolCallId: toolCall.id,
+      name: toolName,
+      content: truncateToolResult(resultStr), // Limit tool output
+      isError: !toolResult.success
+    };
+  }
+
+  /**
+   * Relative path from cwd for progress output (like Claude Code)
+   */
+  private getRelPath(p: string): string {
+    if (!p) return 'file';
+    const cwd = process.cwd().replace(/\\/g, '/');
+    const norm = p.replace(/\\/g, '/');
+    if (norm.startsWith(cwd)) {
+      const rel = norm.substring(cwd.length);
+      return rel.startsWith('/') ? rel.substring(1) : rel;
+    }
+    // Find common base
+    const cwdParts = cwd.split('/').filter(x => x);
+    const fileParts = norm.split('/').filter(x => x);
+    let common = 0;
+    for (let i = 0; i < Math.min(cwdParts.length, fileParts.length); i++) {
+      if (cwdParts[i].toLowerCase() === fileParts[i].toLowerCase()) common = i + 1;
+      else break;
+    }
+    if (common > 0) return fileParts.slice(common).join('/');
+    return fileParts.slice(-3).join('/');
   }
 
   /**
    * Get human-readable progress info for a tool call
    */
   private getToolProgressInfo(toolName: string, args: Record<string, any>): string | null {
-    // Helper to get relative path from current working directory (like Claude Code)
-    const getRelativePath = (filePath: string): string => {
-      if (!filePath) return 'file';
-      const cwd = process.cwd().replace(/\\/g, '/');
-      const normalized = filePath.replace(/\\/g, '/');
-      
-      // If path starts with cwd, show relative path from there
-      if (normalized.startsWith(cwd)) {
-        const relative = normalized.substring(cwd.length);
-        return relative.startsWith('/') ? relative.substring(1) : relative;
-      }
-      
-      // Try to find common base and show relative
-      const cwdParts = cwd.split('/').filter(p => p);
-      const fileParts = normalized.split('/').filter(p => p);
-      
-      // Find common prefix length
-      let commonLen = 0;
-      for (let i = 0; i < Math.min(cwdParts.length, fileParts.length); i++) {
-        if (cwdParts[i].toLowerCase() === fileParts[i].toLowerCase()) {
-          commonLen = i + 1;
-        } else {
-          break;
-        }
-      }
-      
-      // If we found common base, show relative path
-      if (commonLen > 0) {
-        return fileParts.slice(commonLen).join('/');
-      }
-      
-      // Fallback: show last few segments
-      return fileParts.slice(-3).join('/');
-    };
-
     switch (toolName) {
       case 'list_directory':
         const dir = args.path || args.directory || '.';
-        const relDir = getRelativePath(dir);
+        const relDir = this.getRelPath(dir);
         return `📂 Scanning ${relDir === '.' || !relDir ? './' : relDir + '/'}`;
       case 'read_file':
         const file = args.path || args.file_path || args.filename;
         if (file) {
-          return `📖 Reading ${getRelativePath(file)}`;
+          return `📖 Reading ${this.getRelPath(file)}`;
         }
         return null;
       case 'search_in_files':
         const pattern = args.pattern || args.query || args.search;
         return pattern ? `🔍 Searching: "${pattern.substring(0, 30)}${pattern.length > 30 ? '...' : ''}"` : '🔍 Searching files...';
+      case 'glob_files':
+        return `🔍 Finding ${args.pattern || 'files'}`;
       case 'file_exists':
         const checkFile = args.path || 'file';
-        return `🔍 Checking ${getRelativePath(checkFile)}`;
+        return `🔍 Checking ${this.getRelPath(checkFile)}`;
       case 'write_file':
         const writeFile = args.path || args.file_path || 'file';
-        return `✏️  Writing ${getRelativePath(writeFile)}`;
+        return `✏️  Writing ${this.getRelPath(writeFile)}`;
+      case 'edit_file':
+        const editFile = args.path || args.file_path || 'file';
+        return `✏️  Editing ${this.getRelPath(editFile)}`;
+      case 'apply_patch':
+        const patchFiles = (String(args.patch || '').match(/^\+\+\+ /gm) || []).length;
+        return `🩹 Applying patch${patchFiles > 0 ? ` to ${patchFiles} file${patchFiles === 1 ? '' : 's'}` : ''}`;
       case 'delete_file':
         const deleteFile = args.path || args.file_path || 'file';
-        return `🗑️  Deleting ${getRelativePath(deleteFile)}`;
+        return `🗑️  Deleting ${this.getRelPath(deleteFile)}`;
       case 'rename_file':
       case 'move_file':
         const fromFile = args.from || args.source || args.old_path || 'file';
         const toFile = args.to || args.destination || args.new_path || 'file';
-        return `📦 Moving ${getRelativePath(fromFile)} → ${getRelativePath(toFile)}`;
+        return `📦 Moving ${this.getRelPath(fromFile)} → ${this.getRelPath(toFile)}`;
       case 'copy_file':
         const srcFile = args.source || args.from || 'file';
         const destFile = args.destination || args.to || 'file';
-        return `📋 Copying ${getRelativePath(srcFile)} → ${getRelativePath(destFile)}`;
+        return `📋 Copying ${this.getRelPath(srcFile)} → ${this.getRelPath(destFile)}`;
       case 'create_directory':
       case 'mkdir':
         const newDir = args.path || args.directory || 'folder';
-        return `📁 Creating ${getRelativePath(newDir)}/`;
+        return `📁 Creating ${this.getRelPath(newDir)}/`;
       case 'run_command':
         const cmd = args.command || '';
         return `🖥️  Running: ${cmd.substring(0, 50)}${cmd.length > 50 ? '...' : ''}`;
+      case 'start_process':
+        return `🚀 Starting ${args.name || 'process'}${args.waitFor ? ` (waiting for ${String(args.waitFor).substring(0, 30)})` : ''}`;
+      case 'read_process_output':
+        return `📜 Reading logs: ${args.processId || 'process'}`;
       case 'web_search':
         return `🌐 Searching: ${(args.query || '').substring(0, 40)}...`;
       case 'fetch_url':
         const url = args.url || '';
         const domain = url.match(/https?:\/\/([^\/]+)/)?.[1] || url;
         return `🌐 Fetching ${domain.substring(0, 40)}`;
+      case 'todo_write':
+        return '📝 Updating tasks';
       default:
         return `⚙️  ${toolName}...`;
     }
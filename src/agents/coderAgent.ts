@@ -14,6 +14,7 @@ import {
 import { AGENT_CONFIGS } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { FileSystemManager } from '../utils/fileSystem.js';
+import { applyUnifiedPatch, formatPatchReport } from '../tools/patchTools.js';
 
 interface CoderOutput {
   operations: Array<{
@@ -24,6 +25,7 @@ interface CoderOutput {
   }>;
   terminalCommands?: string[];
   notes?: string;
+  patch?: string;
 }
 
 interface BugFix {
@@ -210,9 +212,11 @@ IMPORTANT:
 1. Fix each bug completely
 2. Make sure fixes don't break other functionality
 3. Add any missing error handling or validation
-4. Return the complete fixed file content, not just patches
+4. Prefer a unified diff over rewriting whole files: put it in a "patch" field
+   (with ---/+++ headers and @@ hunks, 3 lines of context). Only use
+   "operations" with complete file content for new files or full rewrites.
 
-Respond with JSON containing file operations for the fixes.
+Respond with JSON: {"patch": "<unified diff>", "operations": [], "notes": "..."}
 `;
 
     const response = await this.chat(fixPrompt);
@@ -228,7 +232,7 @@ Respond with JSON containing file operations for the fixes.
     try {
       const output = this.parseJsonResponse<CoderOutput>(response.content);
       
-      if (!output?.operations) {
+      if (!output?.operations && !output?.patch) {
         return {
           success: false,
           operations: [],
@@ -236,16 +240,39 @@ Respond with JSON containing file operations for the fixes.
         };
       }
 
-      const operations: FileOperation[] = output.operations.map(op => ({
+      const operations: FileOperation[] = (output.operations || []).map(op => ({
         type: 'update' as const,
         path: op.path,
         content: op.content,
         reason: 'Bug fix'
       }));
 
-      // Execute fixes if file manager is available
-      if (this.fileManager) {
-        await this.fileManager.executeOperations(operations);
+      // Apply the patch directly when we own the files, otherwise just compute the results
+      if (output.patch) {
+        const patchResult = applyUnifiedPatch(output.patch, {
+          baseDir: this.fileManager?.getRootDir(),
+          write: this.fileManager !== null
+        });
+
+        if (!patchResult.success) {
+          logger.warn(`Bug fix patch failed: ${patchResult.error}\n${formatPatchReport(patchResult)}`, 'coder');
+          return {
+            success: false,
+            operations: [],
+            error: patchResult.error
+          };
+        }
+
+        for (const file of patchResult.files) {
+          operations.push(file.newContent === null
+            ? { type: 'delete', path: file.path, reason: 'Bug fix' }
+            : { type: 'update', path: file.path, content: file.newContent, reason: 'Bug fix' });
+        }
+      }
+
+      // Execute full-file fixes if file manager is available (patches were already written)
+      if (this.fileManager && output.operations?.length) {
+        await this.fileManager.executeOperations(operations.slice(0, output.operations.length));
       }
 
       logger.success(`Fixed ${operations.length} files`);
@@ -3,8 +3,9 @@
  * Handles all configuration loading and validation
  */
 
+import * as path from 'path';
 import { config as dotenvConfig } from 'dotenv';
-import { OrchestratorConfig, AgentConfig, AgentModel } from '../types/index.js';
+import { OrchestratorConfig, AgentConfig, AgentModel, ToolBudget } from '../types/index.js';
 
 dotenvConfig();
 
@@ -54,8 +55,23 @@ export function getOpenAIApiKey(): string {
   return key;
 }
 
-// Check which API is available
-export function getAvailableProvider(): 'openrouter' | 'anthropic' | 'openai' | null {
+// Local OpenAI-compatible server (Ollama, llama.cpp, vLLM), e.g. http://localhost:11434/v1
+export function getLocalBaseUrl(): string {
+  const url = process.env.AHURA_BASE_URL;
+  if (!url) {
+    throw new Error('AHURA_BASE_URL is required for the local provider, e.g. http://localhost:11434/v1');
+  }
+  return url.replace(/\/+$/, '');
+}
+
+// Most local servers ignore the key, but the client requires a non-empty one
+export function getLocalApiKey(): string {
+  return process.env.AHURA_API_KEY || 'local';
+}
+
+// Check which API is available (a local server wins when configured)
+export function getAvailableProvider(): 'local' | 'openrouter' | 'anthropic' | 'openai' | null {
+  if (process.env.AHURA_BASE_URL) return 'local';
   if (process.env.OPENROUTER_API_KEY) return 'openrouter';
   if (process.env.ANTHROPIC_API_KEY) return 'anthropic';
   if (process.env.OPENAI_API_KEY) return 'openai';
@@ -69,6 +85,26 @@ export function getDefaultModel(): string {
   return process.env.AHURA_MODEL || 'anthropic/claude-sonnet-4.5';
 }
 
+// Tool-calling loop limits shared by all agents (per-agent overrides go in AgentConfig.toolBudget)
+export function getDefaultToolBudget(): ToolBudget {
+  const minutes = parseFloat(process.env.AHURA_MAX_TOOL_MINUTES || '');
+  const tokens = parseInt(process.env.AHURA_MAX_TOOL_TOKENS || '', 10);
+  return {
+    maxIterations: parseInt(process.env.AHURA_MAX_TOOL_ROUNDS || '25', 10) || 25,
+    maxTokens: tokens > 0 ? tokens : undefined,
+    maxDurationMs: minutes > 0 ? minutes * 60000 : undefined
+  };
+}
+
+// Extra directories file tools may access outside the project, separated by
+// the platform path delimiter (":" on Unix, ";" on Windows)
+export function getAllowedDirectories(): string[] {
+  return (process.env.AHURA_ALLOWED_DIRS || '')
+    .split(path.delimiter)
+    .map(dir => dir.trim())
+    .filter(Boolean);
+}
+
 // Popular models available on OpenRouter:
 // - anthropic/claude-sonnet-4.5 (Claude Sonnet 4.5)
 // - anthropic/claude-3.5-sonnet (Claude 3.5 Sonnet)
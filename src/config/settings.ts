@@ -0,0 +1,102 @@
+/**
+ * Settings Loader
+ * Reads permission rules from settings.json files
+ *
+ * Files are merged in order, later files adding to earlier ones:
+ * 1. ~/.ahurasense/settings.json (global)
+ * 2. <project>/.ahura/settings.json (committed, shared with the team)
+ * 3. <project>/.ahura/settings.local.json (personal, not committed)
+ *
+ * Example:
+ * {
+ *   "permissions": {
+ *     "allow": ["run_command(npm test:*)", "write_file(src/**)"],
+ *     "deny": ["run_command(git push*)", "read_file(.env)"]
+ *   }
+ * }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { logger } from '../utils/logger.js';
+
+export interface PermissionRule {
+  // Tool name the rule applies to, e.g. "run_command"
+  tool: string;
+  // Command prefix/pattern or path glob inside the parentheses, if any
+  specifier?: string;
+  // Rule as written, e.g. "run_command(npm test:*)"
+  raw: string;
+  // Settings file the rule came from
+  source: string;
+}
+
+export interface PermissionSettings {
+  allow: PermissionRule[];
+  deny: PermissionRule[];
+}
+
+/**
+ * Settings files for a project, lowest priority first
+ */
+export function getSettingsPaths(projectRoot: string): string[] {
+  return [
+    path.join(os.homedir(), '.ahurasense', 'settings.json'),
+    path.join(projectRoot, '.ahura', 'settings.json'),
+    path.join(projectRoot, '.ahura', 'settings.local.json')
+  ];
+}
+
+/**
+ * Parse "tool" or "tool(specifier)"
+ */
+export function parsePermissionRule(raw: string, source: string): PermissionRule | null {
+  const match = raw.trim().match(/^([\w-]+)(?:\((.*)\))?$/s);
+  if (!match) return null;
+
+  const specifier = match[2]?.trim();
+  return {
+    tool: match[1],
+    ...(specifier && specifier !== '*' ? { specifier } : {}),
+    raw: raw.trim(),
+    source
+  };
+}
+
+function readRules(value: unknown, source: string): PermissionRule[] {
+  if (!Array.isArray(value)) return [];
+
+  const rules: PermissionRule[] = [];
+  for (const entry of value) {
+    const rule = typeof entry === 'string' ? parsePermissionRule(entry, source) : null;
+    if (rule) {
+      rules.push(rule);
+    } else {
+      logger.warn(`Ignoring invalid permission rule in ${source}: ${JSON.stringify(entry)}`);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Load and merge permission rules for a project
+ */
+export function loadPermissionSettings(projectRoot: string): PermissionSettings {
+  const settings: PermissionSettings = { allow: [], deny: [] };
+
+  for (const settingsPath of getSettingsPaths(projectRoot)) {
+    if (!fs.existsSync(settingsPath)) continue;
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+      const permissions = parsed?.permissions || {};
+      settings.allow.push(...readRules(permissions.allow, settingsPath));
+      settings.deny.push(...readRules(permissions.deny, settingsPath));
+    } catch (error) {
+      logger.warn(`Failed to read settings from ${settingsPath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return settings;
+}
@@ -10,6 +10,7 @@ import {
   ConversationSummary,
   WorkingMemory,
   ContextState,
+  ContextSnapshot,
   CompactionOptions,
   CompactionResult
 } from './types.js';
@@ -137,6 +138,31 @@ export class ContextManager {
     };
   }
 
+  /**
+   * Export memory, summaries and recent messages for saving the session
+   */
+  exportSnapshot(): ContextSnapshot {
+    // Deep copy - working memory lists are updated in place
+    return structuredClone({
+      workingMemory: this.workingMemory,
+      summaries: this.summaries,
+      recentMessages: this.recentMessages,
+      messageIdCounter: this.messageIdCounter,
+      compactionCount: this.compactionCount
+    });
+  }
+
+  /**
+   * Restore a saved snapshot (dates may arrive as strings from JSON)
+   */
+  restoreSnapshot(snapshot: ContextSnapshot): void {
+    this.workingMemory = { ...snapshot.workingMemory, lastUpdated: new Date(snapshot.workingMemory.lastUpdated) };
+    this.summaries = snapshot.summaries.map(s => ({ ...s, createdAt: new Date(s.createdAt) }));
+    this.recentMessages = snapshot.recentMessages.map(m => ({ ...m, timestamp: new Date(m.timestamp) }));
+    this.messageIdCounter = snapshot.messageIdCounter;
+    this.compactionCount = snapshot.compactionCount;
+  }
+
   /**
    * Get context percentage used
    */
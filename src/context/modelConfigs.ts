@@ -397,11 +397,12 @@ export function calculateTokenBudget(modelConfig: ModelConfig): TokenBudget {
 }
 
 /**
- * Get the best summarization model (fast & cheap)
+ * Get the best summarization model (fast & cheap), also used for other quick side calls.
+ * Follows AHURA_PLANNER_MODEL so local setups don't need another model setting.
  */
 export function getSummarizationModel(): string {
-  // Claude 3 Haiku is ideal - fast, cheap, good at summarization
-  return 'anthropic/claude-haiku-4.5';
+  // Claude Haiku is ideal - fast, cheap, good at summarization
+  return process.env.AHURA_PLANNER_MODEL || 'anthropic/claude-haiku-4.5';
 }
 
 /**
@@ -3,8 +3,8 @@
  * Uses a fast/cheap model to summarize conversation history
  */
 
-import OpenAI from 'openai';
-import { getOpenRouterApiKey } from '../config/index.js';
+import { providerRegistry } from '../providers/registry.js';
+import { LLMProvider } from '../providers/types.js';
 import { ConversationMessage, ConversationSummary, WorkingMemory } from './types.js';
 import { estimateTokens } from './tokenCounter.js';
 import { getSummarizationModel } from './modelConfigs.js';
@@ -43,7 +43,7 @@ RULES:
 - Output ONLY valid JSON, no markdown`;
 
 export class Summarizer {
-  private client: OpenAI | null = null;
+  private provider: LLMProvider | null = null;
   private model: string;
 
   constructor(model?: string) {
@@ -51,19 +51,12 @@ export class Summarizer {
   }
 
   /**
-   * Initialize the OpenRouter client
+   * Initialize the provider for the current environment
    */
   private async initialize(): Promise<void> {
-    if (this.client) return;
-
-    this.client = new OpenAI({
-      apiKey: getOpenRouterApiKey(),
-      baseURL: 'https://openrouter.ai/api/v1',
-      defaultHeaders: {
-        'HTTP-Referer': 'https://ahurasense.com',
-        'X-Title': 'Ahura CLI - Summarizer'
-      }
-    });
+    if (this.provider) return;
+
+    this.provider = providerRegistry.createDefault();
   }
 
   /**
@@ -74,7 +67,7 @@ export class Summarizer {
     existingMemory?: WorkingMemory
   ): Promise<ConversationSummary> {
     await this.initialize();
-    if (!this.client) throw new Error('Summarizer not initialized');
+    if (!this.provider) throw new Error('Summarizer not initialized');
 
     const startTime = Date.now();
     
@@ -106,17 +99,15 @@ NEW CONVERSATION TO SUMMARIZE:
 Summarize this conversation, preserving all critical technical details.`;
 
     try {
-      const response = await this.client.chat.completions.create({
+      const response = await this.provider.chat({
         model: this.model,
-        max_tokens: 4096,
+        maxTokens: 4096,
         temperature: 0.1, // Low temperature for consistent summaries
-        messages: [
-          { role: 'system', content: SUMMARIZER_PROMPT },
-          { role: 'user', content: fullPrompt }
-        ]
+        system: SUMMARIZER_PROMPT,
+        messages: [{ role: 'user', content: fullPrompt }]
       });
 
-      const content = response.choices[0]?.message?.content || '{}';
+      const content = response.content || '{}';
       
       // Parse the JSON response
       let parsed: {
@@ -268,22 +259,17 @@ Summarize this conversation, preserving all critical technical details.`;
    */
   async summarizeText(text: string, maxTokens: number = 500): Promise<string> {
     await this.initialize();
-    if (!this.client) throw new Error('Summarizer not initialized');
+    if (!this.provider) throw new Error('Summarizer not initialized');
 
-    const response = await this.client.chat.completions.create({
+    const response = await this.provider.chat({
       model: this.model,
-      max_tokens: maxTokens,
+      maxTokens,
       temperature: 0.1,
-      messages: [
-        { 
-          role: 'system', 
-          content: 'Summarize the following text concisely, preserving key technical details. Output plain text only.' 
-        },
-        { role: 'user', content: text }
-      ]
+      system: 'Summarize the following text concisely, preserving key technical details. Output plain text only.',
+      messages: [{ role: 'user', content: text }]
     });
 
-    return response.choices[0]?.message?.content || text.substring(0, 1000);
+    return response.content || text.substring(0, 1000);
   }
 }
 
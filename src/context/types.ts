@@ -90,6 +90,17 @@ export interface ContextState {
   compactionCount: number;      // How many times context was compacted
 }
 
+/**
+ * Saved context of an agent - what a resumed session needs to pick up where it left off
+ */
+export interface ContextSnapshot {
+  workingMemory: WorkingMemory;
+  summaries: ConversationSummary[];
+  recentMessages: ConversationMessage[];
+  messageIdCounter: number;
+  compactionCount: number;
+}
+
 /**
  * Options for context compaction
  */
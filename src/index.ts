@@ -12,23 +12,32 @@
 
 import { config as dotenvConfig } from 'dotenv';
 import * as readline from 'readline';
+import { PassThrough } from 'stream';
 import chalk from 'chalk';
+import { Command } from 'commander';
 import { CoderAgent } from './agents/coderAgent.js';
 import { PlannerAgent } from './agents/plannerAgent.js';
 import { TesterAgent } from './agents/testerAgent.js';
 import { ReviewerAgent } from './agents/reviewerAgent.js';
-import { Task } from './types/index.js';
-import { toolRegistry, registerAllTools } from './tools/index.js';
+import { Task, CLIOptions } from './types/index.js';
+import { toolRegistry, registerAllTools, permissionManager, setTodoManager, PERMISSION_MODES, PermissionMode, PermissionRequest, PermissionDecision } from './tools/index.js';
 import { formatMarkdown, formatResponse } from './utils/markdownFormatter.js';
-import { validatePrompt, onShutdown, isShutdownInProgress } from './utils/robustness.js';
+import { validatePrompt, onShutdown, isShutdownInProgress, runShutdownHandlers } from './utils/robustness.js';
 import { generateRepoMap, getRepoSummary } from './utils/repoMap.js';
 import { ContextSummarizer, getContextSummarizer } from './utils/contextSummarizer.js';
 import { SelfCorrector, withRetry } from './utils/selfCorrector.js';
 import { MemoryManager, createMemoryManager, getMemoryPrompt } from './utils/memoryManager.js';
 import { TodoManager, createTodoManager, TodoItem } from './utils/todoManager.js';
+import { getSessionsDir, createSessionId, SessionTranscript, SessionState, listSessions, loadSession } from './utils/sessions.js';
+import { dryRunOverlay } from './utils/dryRun.js';
+import { createTurnHistory } from './utils/turnHistory.js';
+import { createCheckpointStore } from './utils/checkpoints.js';
 import { buildSystemPrompt, CLAUDE_CODE_SYSTEM_PROMPT } from './prompts/claudeCodeStyle.js';
 import { buildCoderPrompt, buildCoderContext, discoverMemoryFiles } from './prompts/coderPrompt.js';
-import { MODEL_CONFIGS } from './context/modelConfigs.js';
+import { MODEL_CONFIGS, getSummarizationModel } from './context/modelConfigs.js';
+import { getAvailableProvider } from './config/index.js';
+import { providerRegistry } from './providers/registry.js';
+import { LLMProvider } from './providers/types.js';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
@@ -335,29 +344,20 @@ interface ComplexityResult {
  */
 async function analyzePromptComplexity(prompt: string): Promise<ComplexityResult> {
   // Use a quick AI call to determine complexity
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  
-  if (!apiKey) {
-    // No API key - default to full for safety
+  let provider: LLMProvider;
+  try {
+    provider = providerRegistry.createDefault();
+  } catch {
+    // No provider configured - default to full for safety
     return { complexity: 'full', reason: 'No API key, defaulting to full mode', confidence: 0.5 };
   }
   
   try {
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://github.com/ahurasense',
-      },
-      body: JSON.stringify({
-        model: 'anthropic/claude-haiku-4.5',  // Fast & cheap for classification
-        max_tokens: 200,
-        temperature: 0,
-        messages: [
-          {
-            role: 'system',
-            content: `Classify the task complexity. Be smart about typos (e.g., "mirage" likely means "migrate").
+    const response = await provider.chat({
+      model: getSummarizationModel(),  // Fast & cheap for classification
+      maxTokens: 200,
+      temperature: 0,
+      system: `Classify the task complexity. Be smart about typos (e.g., "mirage" likely means "migrate").
 
 QUICK = single-file tasks:
 - Fix a bug, add a function, explain code, simple script
@@ -365,28 +365,11 @@ QUICK = single-file tasks:
 FULL = multi-file/architectural tasks:
 - New project, migration, switching technologies, multi-component work
 
-Output ONLY: {"complexity":"quick"|"full","reason":"short reason"}`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      })
+Output ONLY: {"complexity":"quick"|"full","reason":"short reason"}`,
+      messages: [{ role: 'user', content: prompt }]
     });
     
-    if (!response.ok) {
-      const errText = await response.text();
-      console.log(chalk.gray(`  (Haiku API error: ${response.status})`));
-      // Default to full for complex-sounding requests
-      if (prompt.length > 50 || /\b(and|with|to|from)\b/i.test(prompt)) {
-        return { complexity: 'full', reason: 'API error, defaulting to full (complex request)', confidence: 0.5 };
-      }
-      return { complexity: 'quick', reason: 'API error, defaulting to quick', confidence: 0.5 };
-    }
-    
-    const data: any = await response.json();
-    const content = data.choices?.[0]?.message?.content || '';
+    const content = response.content || '';
     
     // Parse the AI response
     try {
@@ -435,6 +418,21 @@ let currentProject: string = process.cwd();
 let isProcessing = false;
 let shouldAbort = false;
 let lastDetectedComplexity: ComplexityResult | null = null;
+// Outcome of the latest request - headless mode turns these into its output and exit code
+let lastResponse: string | null = null;
+let lastError: string | null = null;
+let lastBudgetStop: string | null = null;
+
+// Identifies this run's state under ~/.ahurasense/sessions/
+let sessionId: string = createSessionId();
+// Append-only record of the session, replayed by --continue and /resume
+let transcript = new SessionTranscript(currentProject, sessionId);
+// Per-turn conversation and file snapshots for /rewind
+const turnHistory = createTurnHistory();
+dryRunOverlay.addChangeListener(fullPath => turnHistory.recordChange(fullPath));
+// Originals of changed files in .ahura/checkpoints/ - /checkpoints, /restore, /diff
+let checkpointStore = createCheckpointStore(currentProject);
+dryRunOverlay.addChangeListener(fullPath => checkpointStore.recordChange(fullPath));
 
 // Conversation memory - KEY FOR FOLLOW-UPS
 let conversationHistory: ConversationMessage[] = [];
@@ -576,6 +574,7 @@ function parseAgentTag(input: string): ParsedInput {
 // Chat with a specific agent
 async function chatWithAgent(agent: AgentTag, message: string): Promise<void> {
   isProcessing = true;
+  shouldAbort = false;
   
   // Initialize agents as needed (coder gets dynamic prompt with context)
   if (!coderAgent) coderAgent = initializeCoderAgent();
@@ -697,7 +696,7 @@ USE YOUR TOOLS for thorough review!\n\n`;
       case 'coder':
       default:
         rolePrompt = `You have TOOLS available:
-- read_file/write_file for file operations
+- read_file/edit_file/write_file for file operations
 - web_search/fetch_url to look up docs
 - run_command to execute npm/git commands
 - list_directory/search_in_files to explore code
@@ -752,12 +751,24 @@ USE TOOLS when helpful!\n\n`;
     console.log('');
     
     // Add to history
+    lastResponse = responseContent;
     addToHistory('assistant', `[${agentNames[agent]}]: ${responseContent}`, result?.tokensUsed);
     
+    if (result?.budgetExhausted) {
+      lastBudgetStop = result.budgetExhausted;
+      printBudgetStop(result.budgetExhausted);
+    }
+    
+    if (result && !result.success) {
+      lastError = result.error || 'Request failed';
+      printStep(icons.error, `Error: ${lastError}`);
+    }
+    
     // Always show context usage bar
     console.log(chalk.gray(`  Context: ${getContextBar(sessionStats.totalTokens)}`));
     
   } catch (error) {
+    lastError = String(error);
     clearLine();
     printStep(icons.error, `Error: ${error}`);
   } finally {
@@ -929,6 +940,14 @@ function printFormattedResponse(text: string): void {
   });
 }
 
+/**
+ * Tell the user the agent ran out of tool budget and how to let it keep going
+ */
+function printBudgetStop(reason: string): void {
+  console.log(chalk.yellow(`  ⏳ Stopped due to budget (${reason}).`) + chalk.gray(' Type /continue to keep going.'));
+  console.log('');
+}
+
 function clearLine() {
   process.stdout.write('\r\x1b[K');
 }
@@ -978,12 +997,14 @@ function buildConversationContext(useSummarizer: boolean = true): string {
 
 // Add message to conversation history
 function addToHistory(role: 'user' | 'assistant', content: string, tokensUsed?: number) {
-  conversationHistory.push({
+  const message: ConversationMessage = {
     role,
     content,
     timestamp: new Date(),
     tokensUsed
-  });
+  };
+  conversationHistory.push(message);
+  transcript.appendMessage(message);
   
   // Also add to context summarizer for smart management
   contextSummarizer.addMessage(role, content);
@@ -1181,14 +1202,12 @@ async function writeFiles(operations: FileOp[]): Promise<string[]> {
       const fullPath = path.join(currentProject, op.path);
       const dir = path.dirname(fullPath);
       
-      // Create directory if needed
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
+      if (!dryRunOverlay.exists(dir)) {
         printStep(icons.folder, `Created folder`, chalk.blue(path.relative(currentProject, dir)));
       }
       
-      // Write file
-      fs.writeFileSync(fullPath, op.content, 'utf-8');
+      // Write file (creates the folder; staged in dry-run mode)
+      dryRunOverlay.writeFile(fullPath, op.content);
       printStep(icons.file, `Created`, chalk.green(op.path));
       created.push(op.path);
     } catch (error) {
@@ -1533,17 +1552,12 @@ Let me create the files for you:
                   const dirRelative = path.relative(currentProject, dir);
                   
                   // Check if file already exists
-                  const fileExists = fs.existsSync(fullPath);
-                  
-                  if (!fs.existsSync(dir)) {
-                    fs.mkdirSync(dir, { recursive: true });
-                  }
+                  const fileExists = dryRunOverlay.exists(fullPath);
                   
+                  dryRunOverlay.writeFile(fullPath, op.content);
                   if (fileExists) {
-                    fs.writeFileSync(fullPath, op.content, 'utf-8');
                     console.log(`  ${chalk.yellow('M')} ${op.path}`);
                   } else {
-                    fs.writeFileSync(fullPath, op.content, 'utf-8');
                     console.log(`  ${chalk.green('+')} ${op.path}`);
                   }
                   filesWritten.add(op.path);
@@ -1567,6 +1581,7 @@ Let me create the files for you:
     }
 
     // Add assistant response to history
+    lastResponse = result.content;
     addToHistory('assistant', result.content, result.tokensUsed);
 
     // Handle any remaining files that weren't written during streaming
@@ -1581,14 +1596,9 @@ Let me create the files for you:
         
         try {
           const fullPath = path.join(currentProject, op.path);
-          const dir = path.dirname(fullPath);
-          const fileExists = fs.existsSync(fullPath);
+          const fileExists = dryRunOverlay.exists(fullPath);
           
-          if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-          }
-          
-          fs.writeFileSync(fullPath, op.content, 'utf-8');
+          dryRunOverlay.writeFile(fullPath, op.content);
           if (fileExists) {
             console.log(`  ${chalk.yellow('M')} ${op.path}`);
           } else {
@@ -1621,17 +1631,14 @@ Let me create the files for you:
       console.log(`  ${chalk.green('✓')} ${filesWritten.size} file(s)`);
       console.log(chalk.gray(`  ${getContextBar(sessionStats.totalTokens)}`));
       
-      // Auto-commit
-      if (isGitRepo()) {
-        const createdArray = Array.from(filesWritten);
-        const committed = gitAutoCommit(createdArray, `Created ${createdArray.length} file(s)`);
-        if (committed) {
-          console.log(chalk.gray(`  Committed (use /undo to revert)`));
-        }
+      const checkpoint = checkpointStore.getCurrent();
+      if (checkpoint) {
+        console.log(chalk.gray(`  Checkpoint ${checkpoint.id} (use /restore ${checkpoint.id} to revert)`));
       }
     }
     
   } catch (error) {
+    lastError = String(error);
     clearLine();
     console.log('');
     console.log(`  ${chalk.red('✗')} ${error}`);
@@ -1702,21 +1709,15 @@ Respond with JSON only:
 {"score": <1-10>, "route": "simple" or "complex", "reason": "<10 words max>"}`;
 
   try {
-    // Use Haiku for fast, cheap detection
-    const OpenAI = (await import('openai')).default;
-    const openrouter = new OpenAI({
-      baseURL: 'https://openrouter.ai/api/v1',
-      apiKey: process.env.OPENROUTER_API_KEY || process.env.OPENAI_API_KEY
-    });
-    
-    const response = await openrouter.chat.completions.create({
-      model: 'anthropic/claude-3-haiku',
+    // Use a fast model for cheap detection
+    const response = await providerRegistry.createDefault().chat({
+      model: getSummarizationModel(),
       messages: [{ role: 'user', content: detectionPrompt }],
-      max_tokens: 100,
+      maxTokens: 100,
       temperature: 0.1
     });
     
-    const content = response.choices[0]?.message?.content || '';
+    const content = response.content || '';
     const jsonMatch = content.match(/\{[\s\S]*\}/);
     
     if (jsonMatch) {
@@ -1920,6 +1921,7 @@ Respond with this format:
       console.log(chalk.yellow('  ⚠ Could not parse structured response'));
       console.log(chalk.gray('  Falling back to direct chat...'));
       // Fallback to showing the text response
+      lastResponse = fullContent;
       printFormattedResponse(fullContent);
       return;
     }
@@ -1968,13 +1970,7 @@ Respond with this format:
       for (const op of result.operations) {
         if (op.path && op.content) {
           const fullPath = path.join(currentProject, op.path);
-          const dir = path.dirname(fullPath);
-          
-          if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-          }
-          
-          fs.writeFileSync(fullPath, op.content, 'utf-8');
+          dryRunOverlay.writeFile(fullPath, op.content);
           
           // Show file with icon based on extension
           const ext = path.extname(op.path).slice(1);
@@ -2010,6 +2006,7 @@ Respond with this format:
     console.log('');
     
   } catch (error) {
+    lastError = String(error);
     clearLine();
     console.log('');
     printStep(icons.error, chalk.red(`Error: ${error}`));
@@ -2054,25 +2051,6 @@ function isGitRepo(): boolean {
   }
 }
 
-function gitAutoCommit(files: string[], message: string): boolean {
-  if (!isGitRepo()) return false;
-  
-  try {
-    // Stage the created files
-    for (const file of files) {
-      execSync(`git add "${file}"`, { cwd: currentProject, stdio: 'pipe' });
-    }
-    
-    // Commit with descriptive message
-    const commitMsg = `[Ahura] ${message}`;
-    execSync(`git commit -m "${commitMsg}"`, { cwd: currentProject, stdio: 'pipe' });
-    
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 // ============ TERMINAL COMMAND EXECUTION ============
 
 // Simple command execution (no retries)
@@ -2081,6 +2059,12 @@ function runTerminalCommandSimple(command: string, description: string): boolean
   printStep('🖥️', chalk.cyan(description));
   console.log(chalk.gray(`     $ ${cmd}`));
   
+  if (dryRunOverlay.isEnabled()) {
+    dryRunOverlay.recordCommand(cmd, currentProject);
+    printStep(icons.info, chalk.gray('Dry run - command not executed'));
+    return true;
+  }
+  
   try {
     execSync(cmd, {
       cwd: currentProject,
@@ -2102,7 +2086,7 @@ const selfCorrector = new SelfCorrector(2); // max 2 retries
 async function runTerminalCommand(command: string, description: string, enableSelfCorrection: boolean = true): Promise<boolean> {
   const cmd = toPowerShellCommand(command); // Convert for Windows compatibility
   
-  if (!enableSelfCorrection) {
+  if (!enableSelfCorrection || dryRunOverlay.isEnabled()) {
     return runTerminalCommandSimple(cmd, description);
   }
   
@@ -2512,15 +2496,12 @@ async function buildProjectFull(prompt: string, rl: readline.Interface): Promise
                 const dir = path.dirname(fullPath);
                 const dirRelative = path.relative(currentProject, dir);
                 
-                if (!fs.existsSync(dir)) {
-                  fs.mkdirSync(dir, { recursive: true });
-                  if (dirRelative) {
-                    clearLine();
-                    printStep(icons.folder, `Created folder`, chalk.blue(dirRelative));
-                  }
+                if (!dryRunOverlay.exists(dir) && dirRelative) {
+                  clearLine();
+                  printStep(icons.folder, `Created folder`, chalk.blue(dirRelative));
                 }
                 
-                fs.writeFileSync(fullPath, op.content, 'utf-8');
+                dryRunOverlay.writeFile(fullPath, op.content);
                 clearLine();
                 printStep(icons.file, `Created`, chalk.green(op.path));
                 filesWrittenFull.add(op.path);
@@ -2645,7 +2626,10 @@ async function buildProjectFull(prompt: string, rl: readline.Interface): Promise
     // ═══════════════════════════════════════════════════════════
     // DEV SERVER (if selected)
     // ═══════════════════════════════════════════════════════════
-    if (runDevServer) {
+    if (runDevServer && dryRunOverlay.isEnabled()) {
+      console.log('');
+      console.log(chalk.gray('  Dry run - dev server not started'));
+    } else if (runDevServer) {
       console.log('');
       console.log(chalk.cyan.bold(`  Starting dev server...`));
       
@@ -2781,8 +2765,7 @@ async function buildProjectFull(prompt: string, rl: readline.Interface): Promise
             for (const op of fixResult.operations) {
               if (op.path && op.content) {
                 const outputPath = path.join(currentProject, op.path);
-                fs.mkdirSync(path.dirname(outputPath), { recursive: true });
-                fs.writeFileSync(outputPath, op.content);
+                dryRunOverlay.writeFile(outputPath, op.content);
                 console.log(chalk.gray(`  ${icons.success} Fixed ${op.path}`));
               }
             }
@@ -2854,6 +2837,7 @@ async function buildProjectFull(prompt: string, rl: readline.Interface): Promise
     }
     
   } catch (error) {
+    lastError = String(error);
     clearLine();
     console.log('');
     printStep(icons.error, chalk.red(`Error: ${error}`));
@@ -2982,6 +2966,133 @@ function askQuestion(rl: readline.Interface, question: string): Promise<string>
   });
 }
 
+// Print a unified diff with added/removed lines colored
+function printDiff(diff: string): void {
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) {
+      console.log(chalk.green(`  ${line}`));
+    } else if (line.startsWith('-') && !line.startsWith('---')) {
+      console.log(chalk.red(`  ${line}`));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(`  ${line}`));
+    } else {
+      console.log(chalk.gray(`  ${line}`));
+    }
+  }
+}
+
+// Ask the user whether a file edit or command may run, showing a preview
+async function promptForPermission(rl: readline.Interface, request: PermissionRequest): Promise<PermissionDecision> {
+  clearLine();
+  console.log('');
+  console.log(chalk.yellow(`  ⚠ ${request.title}`));
+  console.log(chalk.gray('  ' + '─'.repeat(50)));
+  printDiff(request.preview);
+  console.log(chalk.gray('  ' + '─'.repeat(50)));
+  
+  const answer = (await askQuestion(rl, chalk.yellow(`  Allow? (y)es once / (a)lways allow ${request.scope} / (n)o: `))).trim().toLowerCase();
+  
+  if (answer === 'a' || answer === 'always') {
+    console.log(chalk.green(`  ✓ Allowed for this session`));
+    return 'allow-always';
+  }
+  if (answer === 'y' || answer === 'yes') {
+    return 'allow-once';
+  }
+  console.log(chalk.red('  ✗ Denied - the assistant will be told'));
+  return 'deny';
+}
+
+// Show or change the permission mode
+function handlePermissionsCommand(args: string): void {
+  const arg = args.trim().toLowerCase();
+  const modes = Object.keys(PERMISSION_MODES) as PermissionMode[];
+  
+  if (arg === 'reset') {
+    permissionManager.clearAlwaysAllowed();
+    console.log(chalk.green('  ✓ Cleared always-allowed tools and commands'));
+    return;
+  }
+  
+  if (arg) {
+    if (!modes.includes(arg as PermissionMode)) {
+      console.log(chalk.red(`  ✗ Unknown mode: ${arg}`));
+      console.log(chalk.gray(`  Modes: ${modes.join(', ')}`));
+      return;
+    }
+    permissionManager.setMode(arg as PermissionMode);
+    console.log(chalk.green(`  ✓ Permission mode: ${arg}`) + chalk.gray(` - ${PERMISSION_MODES[arg as PermissionMode]}`));
+    return;
+  }
+  
+  console.log('');
+  console.log(chalk.bold.white('  🔐 Permissions'));
+  console.log(chalk.gray('  ' + '─'.repeat(45)));
+  for (const mode of modes) {
+    const active = mode === permissionManager.getMode();
+    const marker = active ? chalk.green('●') : chalk.gray('○');
+    console.log(`  ${marker} ${active ? chalk.white(mode.padEnd(18)) : chalk.gray(mode.padEnd(18))} ${chalk.gray(PERMISSION_MODES[mode])}`);
+  }
+  const rules = permissionManager.getRules(toolRegistry.getWorkspaceRoot());
+  if (rules.allow.length > 0 || rules.deny.length > 0) {
+    console.log('');
+    console.log(chalk.gray('  Rules from settings:'));
+    const sourceLabel = (source: string) => source.startsWith(currentProject)
+      ? path.relative(currentProject, source)
+      : source.replace(homeDir, '~');
+    rules.allow.forEach(rule => console.log(`    ${chalk.green('allow')} ${chalk.white(rule.raw)} ${chalk.gray(sourceLabel(rule.source))}`));
+    rules.deny.forEach(rule => console.log(`    ${chalk.red('deny ')} ${chalk.white(rule.raw)} ${chalk.gray(sourceLabel(rule.source))}`));
+  }
+  const allowed = permissionManager.getAlwaysAllowed();
+  if (allowed.length > 0) {
+    console.log('');
+    console.log(chalk.gray('  Always allowed this session:'));
+    allowed.forEach(key => console.log(chalk.gray(`    - ${key}`)));
+  }
+  console.log('');
+  console.log(chalk.gray('  Usage: /permissions <mode> | /permissions reset'));
+  console.log('');
+}
+
+// Show what a dry run would change, or save it as a patch file
+function showDryRunPreview(savePath?: string): void {
+  if (!dryRunOverlay.isEnabled()) {
+    console.log(chalk.yellow('  ⚠ Not in dry-run mode - start with ahura --dry-run'));
+    return;
+  }
+  
+  if (savePath) {
+    // The patch itself is a real file, written outside the overlay
+    const fullPath = path.resolve(currentProject, savePath);
+    fs.writeFileSync(fullPath, dryRunOverlay.createPatchFile(currentProject), 'utf-8');
+    console.log(chalk.green(`  ✓ Saved patch to ${path.relative(currentProject, fullPath) || fullPath}`));
+    console.log(chalk.gray(`    Apply with: git apply ${savePath}`));
+    return;
+  }
+  
+  const changed = dryRunOverlay.getChangedPaths();
+  const commands = dryRunOverlay.getCommands();
+  console.log('');
+  console.log(chalk.bold.white('  🔍 Dry Run Preview'));
+  console.log(chalk.gray('  ' + '─'.repeat(45)));
+  if (changed.length === 0 && commands.length === 0) {
+    console.log(chalk.gray('  No changes staged yet'));
+    console.log('');
+    return;
+  }
+  if (changed.length > 0) {
+    printDiff(dryRunOverlay.createPatch(currentProject).trimEnd());
+  }
+  if (commands.length > 0) {
+    console.log('');
+    console.log(chalk.white('  Commands not run:'));
+    commands.forEach(c => console.log(chalk.gray(`    $ ${c.command}`)));
+  }
+  console.log('');
+  console.log(chalk.gray(`  ${changed.length} file(s) changed, ${commands.length} command(s) skipped. Save with /preview <file>`));
+  console.log('');
+}
+
 // ============ PROJECT ANALYSIS ============
 
 async function analyzeProject(): Promise<void> {
@@ -3213,6 +3324,7 @@ Be concise. 1-2 sentences per section. Reference actual file names and component
     
     // Format and display the response with proper styling
     const content = response || result.content || '';
+    lastResponse = content;
     printFormattedResponse(content);
     
     console.log('');
@@ -3221,6 +3333,7 @@ Be concise. 1-2 sentences per section. Reference actual file names and component
     console.log('');
     
   } catch (error) {
+    lastError = String(error);
     process.stdout.write('\r\x1b[K');
     console.log(chalk.red(`  ✗ Error: ${error}`));
   } finally {
@@ -3287,6 +3400,7 @@ async function chat(message: string): Promise<void> {
   }
 
   isProcessing = true;
+  shouldAbort = false;
   
   // Add user message to history
   addToHistory('user', message);
@@ -3395,6 +3509,7 @@ Then provide actionable guidance on how to recreate it.`;
         printFormattedResponse(response);
         console.log('');
         
+        lastResponse = response;
         addToHistory('assistant', response, result?.tokensUsed);
         
         isProcessing = false;
@@ -3466,27 +3581,37 @@ Today's date: ${new Date().toLocaleDateString()}
 # Available Tools
 - list_directory: List folder contents
 - read_file: Read file contents (ALWAYS use before editing)
-- search_in_files: Search for text patterns
+- glob_files: Find files by name pattern (e.g. **/*.tsx)
+- search_in_files: Search file contents by regex (context lines, include/exclude globs, files-only or count modes)
 - file_exists: Check if file exists  
-- write_file: Create or update files
+- edit_file: Make targeted edits to existing files (exact string replacement)
+- write_file: Create new files or fully rewrite a file
+- apply_patch: Apply a unified diff across one or more files
 - run_command: Execute shell commands
+- start_process / read_process_output: Run dev servers in the background (waitFor a port or log line) and read their logs
 - web_search: Search the web
 - fetch_url: Fetch webpage content
 
+Read-only tools (reading, listing, searching, fetching) called together in one turn run in parallel - batch independent lookups.
+
 ${memoryContext ? `# Project Memory (from AHURA.md)\n${memoryContext}\n` : ''}
 ${todoContext ? `# Current Tasks\n${todoContext}\n` : ''}
 ${isFixRequest || isEditRequest ? `# CRITICAL: FIX/EDIT REQUEST
 You MUST read the file first before editing. Do NOT create new files when fixing.
 1. Use read_file to see current content
 2. Make targeted, minimal changes
-3. Use write_file to save the fix
+3. Use edit_file to apply the fix
 ` : ''}
-${hasContext ? `# Previous conversation\n${conversationContext}\n` : ''}
+${permissionManager.getMode() === 'plan-only' ? `# PLAN MODE
+The user enabled plan-only mode. Do not edit files or run commands - explore with read-only tools and reply with a step-by-step plan.
+` : ''}${hasContext ? `# Previous conversation\n${conversationContext}\n` : ''}
 User: ${message}`;
     
     // Stream directly to terminal - Claude Code style
     let isFirstChunk = true;
     let lastProgressLength = 0;
+    // Text is formatted a line at a time, so hold back the unfinished line
+    let pendingLine = '';
     
     const result = await coderAgent.chatWithTools(
       prompt,
@@ -3509,6 +3634,10 @@ User: ${message}`;
               isFirstChunk = false;
             }
             response += chunk;
+            
+            const lines = (pendingLine + chunk).split('\n');
+            pendingLine = lines.pop() || '';
+            lines.forEach(line => line.trim() ? printFormattedResponse(line) : console.log(''));
           }
         }
       },
@@ -3516,18 +3645,29 @@ User: ${message}`;
       true
     );
     
-    // Format and display the response nicely
-    if (response) {
-      console.log('');
-      printFormattedResponse(response);
+    // Show the last line of the response
+    if (pendingLine.trim()) {
+      printFormattedResponse(pendingLine);
     }
     
     console.log('');
+    lastResponse = response;
     addToHistory('assistant', response, result?.tokensUsed);
     
+    if (result?.budgetExhausted) {
+      lastBudgetStop = result.budgetExhausted;
+      printBudgetStop(result.budgetExhausted);
+    }
+    
+    if (result && !result.success) {
+      lastError = result.error || 'Request failed';
+      printStep(icons.error, `Error: ${lastError}`);
+    }
+    
     // Show context bar (concise)
     console.log(chalk.gray(`  ${getContextBar(sessionStats.totalTokens)}`));
   } catch (error) {
+    lastError = String(error);
     console.log('');
     printStep(icons.error, `${error}`);
   } finally {
@@ -3610,6 +3750,7 @@ async function compactHistory(instructions?: string): Promise<void> {
   
   const compactedCount = conversationHistory.length - kept.length;
   conversationHistory = kept;
+  transcript.replaceHistory(conversationHistory);
   
   console.log(chalk.green(`  ✓ Compacted ${compactedCount} messages from history`));
   if (contextSummarizer.hasSummary()) {
@@ -3645,7 +3786,15 @@ ${chalk.white('  Commands:')}
     ${chalk.cyan('/cd <path>')}     Change directory
     ${chalk.cyan('/ls')}            List files
     ${chalk.cyan('/map')}           Show project structure
-    ${chalk.cyan('/undo')}          Revert last changes (git)
+    ${chalk.cyan('/undo')}          Undo the file changes of the last request
+    ${chalk.cyan('/rewind')}        Go back to before an earlier prompt, restoring files
+    ${chalk.cyan('/checkpoints')}   List file checkpoints (one per request)
+    ${chalk.cyan('/restore <id>')}  Restore files to before a checkpoint
+    ${chalk.cyan('/diff <id>')}     Show changes since a checkpoint
+    ${chalk.cyan('/permissions')}   Ask / auto-accept-edits / plan-only / bypass
+    ${chalk.cyan('/continue')}      Resume a task that stopped at its tool budget
+    ${chalk.cyan('/resume')}        Pick up a previous session
+    ${chalk.cyan('/preview [file]')} Show or save the changes staged by --dry-run
     ${chalk.cyan('/init')}          Initialize AHURA.md memory file
     ${chalk.cyan('/help')}          Show this help
     ${chalk.cyan('/exit')}          Exit
@@ -3654,16 +3803,49 @@ ${chalk.gray('  Working in: ' + currentProject)}
 `);
 }
 
+/**
+ * Start the session's todo list (saved beside the session) and hand it to the todo_write tool
+ */
+function initTodoManager(): TodoManager {
+  const storagePath = path.join(getSessionsDir(currentProject), `${sessionId}.todos.json`);
+  todoManager = createTodoManager(renderTodoUpdate, storagePath);
+  setTodoManager(todoManager);
+  return todoManager;
+}
+
+// Print the task list with the current one highlighted
+function printTodoList(items: TodoItem[]): void {
+  const completed = items.filter(item => item.status === 'completed').length;
+  console.log(chalk.white(`  Tasks ${chalk.gray(`(${completed}/${items.length} done)`)}`));
+  for (const item of items) {
+    if (item.status === 'completed') {
+      console.log(chalk.gray(`    ✓ ${chalk.strikethrough(item.content)}`));
+    } else if (item.status === 'in_progress') {
+      console.log(chalk.cyan(`    → ${item.content}`));
+    } else {
+      console.log(chalk.white(`    ○ ${item.content}`));
+    }
+  }
+}
+
+// Render the list as the model updates it (replaces any tool progress line)
+function renderTodoUpdate(items: TodoItem[]): void {
+  if (items.length === 0) return;
+  process.stdout.write('\r\x1b[K');
+  printTodoList(items);
+}
+
 // Show todos
 function showTodos(): void {
-  if (!todoManager) {
-    todoManager = createTodoManager();
-  }
+  const manager = todoManager || initTodoManager();
+  const items = manager.getAll();
   
   console.log('');
-  console.log(chalk.white('  Tasks'));
-  console.log(chalk.gray('  ' + '─'.repeat(40)));
-  console.log('  ' + todoManager.format());
+  if (items.length === 0) {
+    console.log(chalk.gray('  No tasks tracked.'));
+  } else {
+    printTodoList(items);
+  }
   console.log('');
 }
 
@@ -3727,6 +3909,309 @@ function showTools(): void {
   console.log('');
 }
 
+// ============ SESSIONS ============
+
+/**
+ * Stats, summarizer and agent context as they are now
+ */
+function captureSessionState(): SessionState {
+  const agents: SessionState['agents'] = {};
+  if (coderAgent) agents.coder = coderAgent.getContextManager().exportSnapshot();
+  if (plannerAgent) agents.planner = plannerAgent.getContextManager().exportSnapshot();
+  if (testerAgent) agents.tester = testerAgent.getContextManager().exportSnapshot();
+  if (reviewerAgent) agents.reviewer = reviewerAgent.getContextManager().exportSnapshot();
+
+  return {
+    stats: structuredClone(sessionStats),
+    summarizer: contextSummarizer.exportState(),
+    agents
+  };
+}
+
+/**
+ * Put back captured state. Agents missing from it get an empty context.
+ */
+function restoreSessionState(state: SessionState): void {
+  sessionStats = structuredClone(state.stats);
+  contextSummarizer.restoreState(state.summarizer);
+
+  if (state.agents.coder) {
+    if (!coderAgent) coderAgent = initializeCoderAgent();
+    coderAgent.getContextManager().restoreSnapshot(state.agents.coder);
+  } else {
+    coderAgent?.getContextManager().clear();
+  }
+  if (state.agents.planner) {
+    if (!plannerAgent) plannerAgent = new PlannerAgent();
+    plannerAgent.getContextManager().restoreSnapshot(state.agents.planner);
+  } else {
+    plannerAgent?.getContextManager().clear();
+  }
+  if (state.agents.tester) {
+    if (!testerAgent) testerAgent = new TesterAgent();
+    testerAgent.getContextManager().restoreSnapshot(state.agents.tester);
+  } else {
+    testerAgent?.getContextManager().clear();
+  }
+  if (state.agents.reviewer) {
+    if (!reviewerAgent) reviewerAgent = new ReviewerAgent();
+    reviewerAgent.getContextManager().restoreSnapshot(state.agents.reviewer);
+  } else {
+    reviewerAgent?.getContextManager().clear();
+  }
+}
+
+/**
+ * Save the latest session state next to the transcript
+ */
+function saveSessionState(): void {
+  transcript.saveState(captureSessionState());
+}
+
+/**
+ * Replay a saved session into the current one. Later messages go to the same transcript.
+ */
+function resumeSession(id: string): boolean {
+  const session = loadSession(currentProject, id);
+  if (!session || session.messages.length === 0) {
+    return false;
+  }
+
+  sessionId = id;
+  transcript = new SessionTranscript(currentProject, sessionId);
+  conversationHistory = session.messages;
+  // Snapshots of this run's turns don't apply to the resumed conversation
+  turnHistory.clear();
+  initTodoManager();
+
+  if (session.state) {
+    restoreSessionState(session.state);
+  } else {
+    // Closed before the first snapshot - rebuild what the messages allow
+    contextSummarizer.clear();
+    session.messages.forEach(m => contextSummarizer.addMessage(m.role, m.content));
+    sessionStats = {
+      totalTokens: session.messages.reduce((sum, m) => sum + (m.tokensUsed || 0), 0),
+      totalMessages: session.messages.length,
+      filesCreated: [],
+      filesModified: [],
+      startTime: session.info.startedAt
+    };
+  }
+
+  console.log(chalk.green(`  ✓ Resumed session from ${session.info.startedAt.toLocaleString()}`) +
+    chalk.gray(` - ${session.messages.length} messages`));
+  return true;
+}
+
+// Pick a recent session of this project to continue
+async function handleResumeCommand(args: string, rl: readline.Interface): Promise<void> {
+  const sessions = listSessions(currentProject).filter(s => s.id !== sessionId);
+  if (sessions.length === 0) {
+    console.log(chalk.yellow('  No saved sessions for this project'));
+    return;
+  }
+
+  let choice = args.trim();
+  if (!choice) {
+    console.log('');
+    console.log(chalk.bold.white('  💾 Recent Sessions'));
+    console.log(chalk.gray('  ' + '─'.repeat(45)));
+    sessions.forEach((session, i) => {
+      const prompt = session.firstPrompt.replace(/\s+/g, ' ');
+      console.log(`  ${chalk.cyan(String(i + 1).padStart(2))}  ${chalk.white(prompt.length > 50 ? prompt.slice(0, 50) + '...' : prompt)}`);
+      console.log(chalk.gray(`      ${session.updatedAt.toLocaleString()}`));
+    });
+    console.log('');
+    choice = (await askQuestion(rl, chalk.yellow('  Resume which session? (number, Enter to cancel): '))).trim();
+    if (!choice) return;
+  }
+
+  // A list number, or a session ID
+  const index = Number(choice);
+  const id = Number.isInteger(index) && index >= 1 && index <= sessions.length
+    ? sessions[index - 1].id
+    : choice;
+  if (!resumeSession(id)) {
+    console.log(chalk.red(`  ✗ No saved session: ${choice}`));
+  }
+}
+
+// Roll the conversation and the files changed since back to before an earlier prompt
+async function handleRewindCommand(args: string, rl: readline.Interface): Promise<void> {
+  if (dryRunOverlay.isEnabled()) {
+    console.log(chalk.yellow('  ⚠ Rewinding restores files on disk - not available in dry-run mode'));
+    return;
+  }
+  const turns = turnHistory.getTurns();
+  if (turns.length === 0) {
+    console.log(chalk.yellow('  Nothing to rewind yet'));
+    return;
+  }
+
+  let choice = args.trim();
+  if (!choice) {
+    console.log('');
+    console.log(chalk.bold.white('  ⏪ Rewind'));
+    console.log(chalk.gray('  ' + '─'.repeat(45)));
+    turns.forEach(turn => {
+      const prompt = turn.prompt.replace(/\s+/g, ' ');
+      const files = turn.filesChanged.length > 0 ? chalk.yellow(` ${turn.filesChanged.length} file(s) changed`) : '';
+      console.log(`  ${chalk.cyan(String(turn.index + 1).padStart(2))}  ${chalk.white(prompt.length > 50 ? prompt.slice(0, 50) + '...' : prompt)}`);
+      console.log(chalk.gray(`      ${turn.startedAt.toLocaleTimeString()}`) + files);
+    });
+    console.log('');
+    choice = (await askQuestion(rl, chalk.yellow('  Rewind to before which prompt? (number, Enter to cancel): '))).trim();
+    if (!choice) return;
+  }
+
+  const index = Number(choice) - 1;
+  if (!Number.isInteger(index) || index < 0 || index >= turns.length) {
+    console.log(chalk.red(`  ✗ No prompt #${choice}`));
+    return;
+  }
+
+  const files = turnHistory.getFilesSince(index);
+  if (files.length > 0) {
+    console.log(chalk.gray('  Files that will be restored:'));
+    files.forEach(file => console.log(chalk.gray(`    - ${path.relative(currentProject, file)}`)));
+    if (!(await askConfirmation(rl, chalk.yellow('  Restore them and rewind? (y/n): ')))) {
+      console.log(chalk.gray('  Cancelled'));
+      return;
+    }
+  }
+
+  // The rewind gets its own checkpoint, so /undo takes it back
+  checkpointStore.begin(`/rewind ${index + 1}`);
+  const result = turnHistory.rewind(index, fullPath => checkpointStore.recordChange(fullPath));
+  const undoId = checkpointStore.getCurrent()?.id ?? null;
+  checkpointStore.end();
+  if (!result) return;
+  conversationHistory = result.messages;
+  transcript.replaceHistory(conversationHistory);
+  restoreSessionState(result.state);
+  saveSessionState();
+
+  console.log(chalk.green(`  ✓ Rewound to before: ${result.prompt.length > 60 ? result.prompt.slice(0, 60) + '...' : result.prompt}`));
+  if (result.restoredFiles.length > 0) {
+    console.log(chalk.gray(`    Restored ${result.restoredFiles.length} file(s)`));
+    if (undoId !== null) {
+      console.log(chalk.gray(`    Changed your mind? /restore ${undoId}`));
+    }
+  }
+}
+
+// --continue: resume the most recent session of this project
+function continueLastSession(): boolean {
+  const [latest] = listSessions(currentProject, 1);
+  if (!latest || !resumeSession(latest.id)) {
+    console.log(chalk.yellow('  No previous session to continue - starting a new one'));
+    return false;
+  }
+  return true;
+}
+
+// ============ CHECKPOINTS ============
+
+function showCheckpoints(): void {
+  const checkpoints = checkpointStore.list();
+  console.log('');
+  console.log(chalk.bold.white('  📌 Checkpoints'));
+  console.log(chalk.gray('  ' + '─'.repeat(45)));
+  if (checkpoints.length === 0) {
+    console.log(chalk.gray('  No checkpoints yet - one is saved for each request that changes files'));
+    console.log('');
+    return;
+  }
+  for (const checkpoint of checkpoints.slice(0, 20)) {
+    const prompt = (checkpoint.prompt || '(no prompt)').replace(/\s+/g, ' ');
+    console.log(`  ${chalk.cyan(String(checkpoint.id).padStart(3))}  ${chalk.white(prompt.length > 50 ? prompt.slice(0, 50) + '...' : prompt)}`);
+    const files = checkpoint.files.map(file => file.path);
+    const shown = files.slice(0, 3).join(', ') + (files.length > 3 ? `, +${files.length - 3} more` : '');
+    console.log(chalk.gray(`       ${checkpoint.createdAt.toLocaleString()} - ${shown}`));
+  }
+  console.log('');
+  console.log(chalk.gray('  Usage: /diff <id> | /restore <id>'));
+  console.log('');
+}
+
+/**
+ * Start a user turn: snapshot the conversation for /rewind and open a file checkpoint
+ */
+function beginTurn(prompt: string): void {
+  turnHistory.beginTurn(prompt, conversationHistory, captureSessionState());
+  checkpointStore.begin(prompt);
+}
+
+// Parse the checkpoint ID argument, reporting problems
+function parseCheckpointId(args: string, usage: string): number | null {
+  const id = Number(args.trim());
+  if (!args.trim() || !Number.isInteger(id)) {
+    console.log(chalk.gray(`  Usage: ${usage}`));
+    return null;
+  }
+  if (!checkpointStore.get(id)) {
+    console.log(chalk.red(`  ✗ No checkpoint ${id} - see /checkpoints`));
+    return null;
+  }
+  return id;
+}
+
+function showCheckpointDiff(args: string): void {
+  const id = parseCheckpointId(args, '/diff <id>');
+  if (id === null) return;
+
+  const diff = checkpointStore.diff(id);
+  if (!diff) {
+    console.log(chalk.gray(`  No changes since checkpoint ${id}`));
+    return;
+  }
+  console.log('');
+  printDiff(diff.trimEnd());
+  console.log('');
+}
+
+// Put files back as they were before a checkpoint
+async function handleRestoreCommand(args: string, rl: readline.Interface): Promise<void> {
+  if (dryRunOverlay.isEnabled()) {
+    console.log(chalk.yellow('  ⚠ Restoring writes to disk - not available in dry-run mode'));
+    return;
+  }
+  const id = parseCheckpointId(args, '/restore <id>');
+  if (id === null) return;
+
+  const later = checkpointStore.list().filter(checkpoint => checkpoint.id > id).length;
+  const question = later > 0
+    ? `  Restore files to before checkpoint ${id}? This also undoes ${later} later checkpoint(s) (y/n): `
+    : `  Restore files to before checkpoint ${id}? (y/n): `;
+  if (!(await askConfirmation(rl, chalk.yellow(question)))) {
+    console.log(chalk.gray('  Cancelled'));
+    return;
+  }
+
+  const result = checkpointStore.restore(id);
+  if (!result || result.restored.length === 0) {
+    console.log(chalk.gray('  Files already match - nothing to restore'));
+    return;
+  }
+  result.restored.forEach(file => console.log(`  ${chalk.yellow('R')} ${file}`));
+  console.log(chalk.green(`  ✓ Restored ${result.restored.length} file(s)`));
+  if (result.undoId !== null) {
+    console.log(chalk.gray(`    Changed your mind? /restore ${result.undoId}`));
+  }
+}
+
+// Undo the file changes of the most recent checkpoint
+async function undoLastCheckpoint(rl: readline.Interface): Promise<void> {
+  const [latest] = checkpointStore.list();
+  if (!latest) {
+    console.log(chalk.yellow('  ⚠ Nothing to undo - no checkpoints yet'));
+    return;
+  }
+  console.log(chalk.gray(`  Last checkpoint: ${latest.prompt || '(no prompt)'}`));
+  await handleRestoreCommand(String(latest.id), rl);
+}
+
 // ============ INPUT PROCESSING ============
 
 async function processInput(input: string, rl: readline.Interface): Promise<boolean> {
@@ -3760,6 +4245,39 @@ async function processInput(input: string, rl: readline.Interface): Promise<bool
         showStatus();
         break;
 
+      case 'permissions':
+        handlePermissionsCommand(args);
+        break;
+
+      case 'continue':
+        beginTurn(args || '/continue');
+        await chat(args || 'Continue where you left off.');
+        break;
+
+      case 'resume':
+        await handleResumeCommand(args, rl);
+        break;
+
+      case 'rewind':
+        await handleRewindCommand(args, rl);
+        break;
+
+      case 'checkpoints':
+        showCheckpoints();
+        break;
+
+      case 'restore':
+        await handleRestoreCommand(args, rl);
+        break;
+
+      case 'diff':
+        showCheckpointDiff(args);
+        break;
+
+      case 'preview':
+        showDryRunPreview(args.trim() || undefined);
+        break;
+
       case 'history':
         showHistory();
         break;
@@ -3807,6 +4325,7 @@ async function processInput(input: string, rl: readline.Interface): Promise<bool
       case 'clear':
         conversationHistory = []; // Clear conversation too
         contextSummarizer.clear(); // Also clear summarizer
+        transcript.replaceHistory([]);
         console.clear();
         showBanner();
         console.log(chalk.gray('  Conversation cleared.\n'));
@@ -3815,6 +4334,10 @@ async function processInput(input: string, rl: readline.Interface): Promise<bool
       case 'reset':
         conversationHistory = [];
         contextSummarizer.clear(); // Also clear summarizer
+        sessionId = createSessionId();
+        transcript = new SessionTranscript(currentProject, sessionId);
+        turnHistory.clear();
+        initTodoManager();
         sessionStats = {
           totalTokens: 0,
           totalMessages: 0,
@@ -3834,6 +4357,7 @@ async function processInput(input: string, rl: readline.Interface): Promise<bool
           const resolved = path.resolve(currentProject, newDir);
           if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
             currentProject = resolved;
+            checkpointStore = createCheckpointStore(currentProject);
             // Sync tools' working directory with CLI
             const { setWorkingDirectory } = await import('./tools/fileTools.js');
             setWorkingDirectory(resolved);
@@ -3895,23 +4419,7 @@ async function processInput(input: string, rl: readline.Interface): Promise<bool
         break;
 
       case 'undo':
-        if (!isGitRepo()) {
-          console.log(chalk.yellow('  ⚠ Not a git repository - cannot undo'));
-        } else {
-          try {
-            // Get last commit message to show what we're undoing
-            const lastMsg = execSync('git log -1 --pretty=%s', { cwd: currentProject, encoding: 'utf-8' }).trim();
-            if (lastMsg.startsWith('[Ahura]')) {
-              execSync('git reset --hard HEAD~1', { cwd: currentProject, stdio: 'pipe' });
-              console.log(chalk.green(`  ✓ Reverted: ${lastMsg}`));
-            } else {
-              console.log(chalk.yellow('  ⚠ Last commit was not made by Ahura'));
-              console.log(chalk.gray(`    Last commit: ${lastMsg}`));
-            }
-          } catch {
-            console.log(chalk.red('  ✗ Failed to undo - no commits to revert'));
-          }
-        }
+        await undoLastCheckpoint(rl);
         break;
 
       default:
@@ -3926,11 +4434,13 @@ async function processInput(input: string, rl: readline.Interface): Promise<bool
   const validation = validatePrompt(trimmed);
   if (!validation.valid) {
     console.log(chalk.yellow(`  ⚠ ${validation.error}`));
+    lastError = validation.error || 'Invalid prompt';
     return true;
   }
   
   // Use sanitized input
   const sanitizedInput = validation.sanitized || trimmed;
+  beginTurn(sanitizedInput);
 
   // Check for agent tags (@coder, @tester, @planner, @reviewer)
   const hasAgentTag = sanitizedInput.match(/^@(coder|tester|planner|reviewer)\s+/i);
@@ -3999,6 +4509,186 @@ async function processInput(input: string, rl: readline.Interface): Promise<bool
   return true;
 }
 
+// ============ HEADLESS MODE ============
+
+type HeadlessOutput = 'text' | 'json' | 'stream-json';
+const HEADLESS_OUTPUTS: HeadlessOutput[] = ['text', 'json', 'stream-json'];
+
+// Exit codes for scripts: answered, request failed, bad usage, stopped by the tool budget
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_BUDGET = 3;
+// Second Ctrl+C - the conventional 128 + SIGINT
+const EXIT_INTERRUPTED = 130;
+
+/**
+ * Parse command-line flags. Without -p the interactive prompt starts.
+ */
+function parseCLIOptions(): CLIOptions {
+  const program = new Command()
+    .name('ahura')
+    .description('Ahurasense AI code assistant')
+    .option('-p, --print <prompt>', 'Run one request without the interactive prompt, print the answer and exit ("-" reads stdin)')
+    .option('-o, --output <format>', `Output format with -p: ${HEADLESS_OUTPUTS.join(', ')}`, 'text')
+    .option('--permission-mode <mode>', `Permission mode with -p: ${Object.keys(PERMISSION_MODES).join(', ')}`)
+    .option('-v, --verbose', 'Show progress on stderr with -p')
+    .option('-c, --continue', 'Continue the most recent session in this folder')
+    .option('--dry-run', 'Stage file changes and commands without touching disk, then show them as a diff')
+    .parse();
+
+  const opts = program.opts();
+  return {
+    prompt: opts.print,
+    output: opts.output,
+    verbose: Boolean(opts.verbose),
+    permissionMode: opts.permissionMode,
+    dryRun: Boolean(opts.dryRun),
+    continueSession: Boolean(opts.continue),
+    interactive: opts.print === undefined
+  };
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Readline stand-in for flows that ask questions. Plans are approved only in bypass mode:
+ * building one runs scaffold commands and writes files without per-call permission checks.
+ * Anything else gets an empty answer.
+ */
+function createHeadlessInterface(): readline.Interface {
+  const rl = readline.createInterface({ input: new PassThrough(), terminal: false });
+  rl.question = ((query: string, ...rest: unknown[]) => {
+    let answer = '';
+    if (/Proceed\?/.test(query)) {
+      answer = permissionManager.getMode() === 'bypass' ? 'y' : 'c';
+      if (answer === 'c') {
+        lastError = 'The plan needs approval - building it runs commands and writes files. Re-run with --permission-mode bypass, or run the request interactively.';
+      }
+    }
+    console.log(`${query}${answer}`);
+    (rest[rest.length - 1] as (answer: string) => void)(answer);
+  }) as typeof rl.question;
+  return rl;
+}
+
+/**
+ * Run one request through processInput's routing and print the result for scripts.
+ * Returns the process exit code.
+ */
+async function runHeadless(options: CLIOptions): Promise<number> {
+  const format = (options.output || 'text') as HeadlessOutput;
+  if (!HEADLESS_OUTPUTS.includes(format)) {
+    console.error(`Unknown output format '${options.output}'. Use one of: ${HEADLESS_OUTPUTS.join(', ')}`);
+    return EXIT_USAGE;
+  }
+  if (options.permissionMode && !(options.permissionMode in PERMISSION_MODES)) {
+    console.error(`Unknown permission mode '${options.permissionMode}'. Use one of: ${Object.keys(PERMISSION_MODES).join(', ')}`);
+    return EXIT_USAGE;
+  }
+
+  const prompt = options.prompt === '-' ? await readStdin() : options.prompt || '';
+  if (!prompt.trim()) {
+    console.error('No prompt given. Usage: ahura -p "your request"');
+    return EXIT_USAGE;
+  }
+  if (getAvailableProvider() === null && !process.env.AHURA_PROVIDER) {
+    console.error('No AI provider configured. Set OPENROUTER_API_KEY, ANTHROPIC_API_KEY, OPENAI_API_KEY, or AHURA_BASE_URL');
+    return EXIT_ERROR;
+  }
+
+  // Only the result goes to stdout; the interactive UI goes to stderr with --verbose, otherwise nowhere
+  const writeOutput = process.stdout.write.bind(process.stdout);
+  process.stdout.write = (options.verbose
+    ? process.stderr.write.bind(process.stderr)
+    : () => true) as typeof process.stdout.write;
+  const emit = (event: Record<string, unknown>) => {
+    if (format === 'stream-json') writeOutput(JSON.stringify(event) + '\n');
+  };
+
+  if (options.permissionMode) {
+    permissionManager.setMode(options.permissionMode as PermissionMode);
+  }
+  // Nobody is there to approve - calls that would ask are refused
+  permissionManager.setPrompt(async request => {
+    emit({ type: 'permission_denied', tool: request.toolName, title: request.title });
+    return 'deny';
+  });
+  toolRegistry.setCallListener(event => {
+    if (event.type === 'start') {
+      emit({ type: 'tool_use', tool: event.name, input: event.params });
+    } else {
+      emit({ type: 'tool_result', tool: event.name, success: event.result.success, error: event.result.error, duration_ms: event.durationMs });
+    }
+  });
+  toolRegistry.setAbortCheck(() => shouldAbort);
+  // First Ctrl+C stops the tool loop and still prints a result; the second exits
+  // right away, since flows outside the loop (planning, waiting on the API) don't check it
+  let interrupted = false;
+  process.on('SIGINT', async () => {
+    if (interrupted) {
+      await runShutdownHandlers();
+      process.exit(EXIT_INTERRUPTED);
+    }
+    interrupted = true;
+    shouldAbort = true;
+    console.error('Interrupted - press Ctrl+C again to exit immediately');
+  });
+  initTodoManager();
+  if (options.continueSession) {
+    continueLastSession();
+  }
+
+  emit({ type: 'start', session_id: sessionId, cwd: currentProject, prompt });
+  const startTime = Date.now();
+
+  try {
+    await processInput(prompt, createHeadlessInterface());
+  } catch (error) {
+    lastError = String(error);
+  }
+  saveSessionState();
+
+  const answer = lastResponse || '';
+  const exitCode = lastError ? EXIT_ERROR : lastBudgetStop ? EXIT_BUDGET : EXIT_OK;
+  emit({ type: 'usage', total_tokens: sessionStats.totalTokens });
+
+  // Dry run: what would have changed, as a patch plus the skipped commands
+  const dryRun = dryRunOverlay.isEnabled()
+    ? { patch: dryRunOverlay.createPatch(currentProject), commands: dryRunOverlay.getCommands().map(c => c.command) }
+    : undefined;
+
+  if (format === 'text') {
+    if (answer) writeOutput(answer.trimEnd() + '\n');
+    if (dryRun && dryRunOverlay.hasChanges()) writeOutput('\n' + dryRunOverlay.createPatchFile(currentProject));
+    if (lastError) console.error(`Error: ${lastError}`);
+    if (lastBudgetStop) console.error(`Stopped due to budget (${lastBudgetStop})`);
+    return exitCode;
+  }
+
+  writeOutput(JSON.stringify({
+    type: 'result',
+    success: !lastError,
+    exit_code: exitCode,
+    result: answer,
+    ...(lastError ? { error: lastError } : {}),
+    ...(lastBudgetStop ? { budget_exhausted: lastBudgetStop } : {}),
+    session_id: sessionId,
+    duration_ms: Date.now() - startTime,
+    total_tokens: sessionStats.totalTokens,
+    files_created: sessionStats.filesCreated,
+    files_modified: sessionStats.filesModified,
+    ...(dryRun ? { dry_run: dryRun } : {})
+  }) + '\n');
+  return exitCode;
+}
+
 // ============ MAIN ============
 
 function showBanner() {
@@ -4015,10 +4705,25 @@ function showBanner() {
 }
 
 async function main(): Promise<void> {
+  const options = parseCLIOptions();
+  if (options.dryRun) {
+    dryRunOverlay.enable();
+    // Nothing reaches disk, so there is nothing to approve unless a mode was asked for
+    if (!options.permissionMode) {
+      permissionManager.setMode('bypass');
+    }
+  }
+  if (!options.interactive) {
+    const exitCode = await runHeadless(options);
+    // Stop background processes before exiting
+    await runShutdownHandlers();
+    process.exit(exitCode);
+  }
+
   showBanner();
 
   // Check API key
-  const hasApiKey = process.env.OPENROUTER_API_KEY || process.env.ANTHROPIC_API_KEY || process.env.OPENAI_API_KEY;
+  const hasApiKey = getAvailableProvider() !== null;
   
   if (!hasApiKey) {
     console.log(chalk.yellow('  ⚠ Configuration required'));
@@ -4028,6 +4733,9 @@ async function main(): Promise<void> {
 
   // Show working directory cleanly
   console.log(chalk.gray(`  📁 ${path.basename(currentProject)}`));
+  if (dryRunOverlay.isEnabled()) {
+    console.log(chalk.yellow('  🔍 Dry run - changes are staged, not written. /preview to review'));
+  }
   console.log('');
 
   // Create readline interface
@@ -4037,6 +4745,16 @@ async function main(): Promise<void> {
     terminal: true
   });
 
+  // Ask before file edits and commands run in the tool loop
+  permissionManager.setPrompt(request => promptForPermission(rl, request));
+  // Ctrl+C cancels running commands
+  toolRegistry.setAbortCheck(() => shouldAbort);
+  // todo_write updates are shown live and saved with the session
+  initTodoManager();
+  if (options.continueSession && continueLastSession()) {
+    console.log('');
+  }
+
   // Register graceful shutdown handlers
   onShutdown(() => {
     console.log(chalk.gray('  Cleaning up...'));
@@ -4056,7 +4774,6 @@ async function main(): Promise<void> {
     } else {
       console.log(chalk.gray('\n  Goodbye! 👋\n'));
       rl.close();
-      process.exit(0);
     }
   });
 
@@ -4080,7 +4797,11 @@ async function main(): Promise<void> {
       const continueLoop = await processInput(line, rl);
       if (!continueLoop) {
         rl.close();
-        process.exit(0);
+        return;
+      }
+      if (line.trim()) saveSessionState();
+      if (dryRunOverlay.hasChanges() && !line.trim().startsWith('/')) {
+        console.log(chalk.gray(`  🔍 Dry run: ${dryRunOverlay.getChangedPaths().length} file(s) staged, ${dryRunOverlay.getCommands().length} command(s) skipped - /preview`));
       }
     } catch (error) {
       console.log(chalk.red(`  Error: ${error}`));
@@ -4088,8 +4809,13 @@ async function main(): Promise<void> {
     showPrompt();
   });
 
-  rl.on('close', () => {
+  rl.on('close', async () => {
     console.log('');
+    if (dryRunOverlay.hasChanges()) {
+      showDryRunPreview();
+    }
+    // Stop background processes and run other cleanup before exiting
+    await runShutdownHandlers();
     process.exit(0);
   });
 }
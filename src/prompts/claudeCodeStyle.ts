@@ -105,7 +105,7 @@ NEVER commit changes unless the user explicitly asks you to. It is VERY IMPORTAN
 - You have the capability to call multiple tools in a single response. When multiple independent pieces of information are requested, batch your tool calls together for optimal performance.
 - ALWAYS read a file before editing it. Use the read_file tool first, then make targeted edits.
 - When doing file search, prefer using search tools to reduce context usage.
-- VERY IMPORTANT: You MUST avoid using bash commands like find, grep, cat, head, tail, and ls. Instead use the provided tools: read_file, list_directory, search_in_files, write_file.
+- VERY IMPORTANT: You MUST avoid using bash commands like find, grep, cat, head, tail, and ls. Instead use the provided tools: read_file, list_directory, search_in_files, edit_file, write_file.
 
 # Code References
 When referencing specific functions or pieces of code include the pattern file_path:line_number to allow the user to easily navigate to the source code location.
@@ -205,11 +205,12 @@ You have access to a memory file at AHURA.md in the project root. This file pers
 4. Update existing entries rather than duplicating information`;
 
 export const EDIT_TOOL_PROMPT = `# Edit Tool Guidelines
-This tool performs exact string replacements in files.
+The edit_file tool performs exact string replacements in files. Pass path, old_string and new_string (set replace_all to change every occurrence), or an edits array to apply several replacements at once.
+Use edit_file for changes to existing files; only use write_file for new files or complete rewrites.
 
 CRITICAL REQUIREMENTS:
 1. You must use read_file at least once before editing. This tool will error if you attempt an edit without reading the file.
-2. When editing text, preserve the exact indentation (tabs/spaces) as it appears in the file.
+2. When editing text, preserve the exact indentation (tabs/spaces) as it appears in the file. read_file prefixes each line with its line number and a tab - never include that prefix in old_string or new_string.
 3. ALWAYS prefer editing existing files. NEVER write new files unless explicitly required.
 4. The old_string MUST uniquely identify the specific instance you want to change:
    - Include AT LEAST 3-5 lines of context BEFORE the change point
@@ -0,0 +1,168 @@
+/**
+ * Anthropic Provider
+ * Messages API backend with native tool_use / tool_result blocks
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { toAnthropicTools } from '../tools/toolRegistry.js';
+import {
+  LLMProvider,
+  ProviderCapabilities,
+  ChatRequest,
+  ChatResponse,
+  ContentPart,
+  ProviderToolCall
+} from './types.js';
+
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 4096;
+
+type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+function toContentBlocks(parts: ContentPart[]): Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam> {
+  return parts.map(part => part.type === 'text'
+    ? { type: 'text' as const, text: part.text }
+    : { type: 'image' as const, source: { type: 'base64' as const, media_type: part.mimeType as ImageMediaType, data: part.data } }
+  );
+}
+
+/**
+ * Convert provider messages to Anthropic messages.
+ * Consecutive tool results are merged into one user turn, as the API requires.
+ */
+function toAnthropicMessages(request: ChatRequest): Anthropic.MessageParam[] {
+  const messages: Anthropic.MessageParam[] = [];
+
+  for (const message of request.messages) {
+    if (message.role === 'tool') {
+      const block: Anthropic.ToolResultBlockParam = {
+        type: 'tool_result',
+        tool_use_id: message.toolCallId,
+        content: message.content,
+        ...(message.isError ? { is_error: true } : {})
+      };
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === 'user' && Array.isArray(previous.content)
+        && previous.content.every(b => b.type === 'tool_result')) {
+        previous.content.push(block);
+      } else {
+        messages.push({ role: 'user', content: [block] });
+      }
+    } else if (message.role === 'assistant') {
+      const blocks: Array<Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam> = [];
+      if (message.content) blocks.push({ type: 'text', text: message.content });
+      for (const call of message.toolCalls || []) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+      }
+      messages.push({ role: 'assistant', content: blocks.length > 0 ? blocks : '' });
+    } else {
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === 'user' && Array.isArray(previous.content)) {
+        // Text following tool results joins their turn - user turns must alternate with assistant turns
+        previous.content.push(...toContentBlocks(
+          typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : message.content
+        ));
+      } else {
+        messages.push({
+          role: 'user',
+          content: typeof message.content === 'string' ? message.content : toContentBlocks(message.content)
+        });
+      }
+    }
+  }
+
+  return messages;
+}
+
+function toResponse(message: Anthropic.Message): ChatResponse {
+  const content = message.content
+    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+
+  const toolCalls: ProviderToolCall[] = message.content
+    .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id,
+      name: block.name,
+      arguments: (block.input || {}) as Record<string, unknown>
+    }));
+
+  const inputTokens = message.usage.input_tokens;
+  const outputTokens = message.usage.output_tokens;
+
+  return {
+    content,
+    toolCalls,
+    usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    stopReason: message.stop_reason || undefined
+  };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async getCapabilities(): Promise<ProviderCapabilities> {
+    return { tools: true, vision: true, streaming: true };
+  }
+
+  private buildParams(request: ChatRequest) {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      ...(request.system ? { system: request.system } : {}),
+      messages: toAnthropicMessages(request),
+      ...(request.tools && request.tools.length > 0 ? { tools: toAnthropicTools(request.tools) } : {})
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const message = await this.client.messages.create(this.buildParams(request), { signal: request.signal });
+    return toResponse(message);
+  }
+
+  async stream(
+    request: ChatRequest,
+    onText: (text: string) => void,
+    onToolCall?: (call: ProviderToolCall) => void
+  ): Promise<ChatResponse> {
+    const stream = this.client.messages.stream(this.buildParams(request), { signal: request.signal });
+
+    // content_block_stop also fires for a call cut off by max_tokens, so a finished call is
+    // held until the next block starts or the stop reason says the output was complete
+    let pending: ProviderToolCall | null = null;
+    const release = () => {
+      if (pending) onToolCall?.(pending);
+      pending = null;
+    };
+
+    for await (const event of stream) {
+      if (event.type === 'content_block_start') {
+        release();
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        onText(event.delta.text);
+      } else if (event.type === 'content_block_stop' && onToolCall) {
+        // Tool inputs are assembled by the SDK from the streamed JSON deltas
+        const block = stream.currentMessage?.content[event.index];
+        if (block?.type === 'tool_use') {
+          pending = { id: block.id, name: block.name, arguments: (block.input || {}) as Record<string, unknown> };
+        }
+      } else if (event.type === 'message_delta') {
+        // A truncated call is dropped here and refused by the tool loop
+        if (event.delta.stop_reason === 'max_tokens') {
+          pending = null;
+        } else {
+          release();
+        }
+      }
+    }
+
+    return toResponse(await stream.finalMessage());
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * LLM Providers Module
+ * One implementation per backend behind a shared interface
+ */
+
+export * from './types.js';
+export * from './openaiProvider.js';
+export * from './anthropicProvider.js';
+export * from './localProvider.js';
+export * from './registry.js';
@@ -0,0 +1,114 @@
+/**
+ * Local Provider
+ * OpenAI-compatible model servers (Ollama, llama.cpp, vLLM) for fully offline use
+ */
+
+import OpenAI from 'openai';
+import { MODEL_CONFIGS } from '../context/modelConfigs.js';
+import { logger } from '../utils/logger.js';
+import { OpenAIProvider } from './openaiProvider.js';
+import { ProviderCapabilities } from './types.js';
+
+// Server metadata endpoints answer quickly or not at all
+const METADATA_TIMEOUT = 5000;
+// The tool probe may have to wait for the model to load into memory
+const PROBE_TIMEOUT = 60000;
+
+/**
+ * GET/POST a JSON endpoint, returning null on any failure
+ */
+async function fetchJson(url: string, body?: unknown): Promise<Record<string, any> | null> {
+  try {
+    const response = await fetch(url, {
+      method: body ? 'POST' : 'GET',
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(METADATA_TIMEOUT)
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data && typeof data === 'object' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+export class LocalProvider extends OpenAIProvider {
+  private serverRoot: string;
+  // One probe per model, shared by concurrent callers
+  private probes: Map<string, Promise<ProviderCapabilities>> = new Map();
+
+  constructor(baseURL: string, apiKey: string) {
+    super({ name: 'local', apiKey, baseURL });
+    // Native endpoints (/api/show, /props) live beside the /v1 API
+    this.serverRoot = baseURL.replace(/\/v1$/, '');
+  }
+
+  /**
+   * Models listed in MODEL_CONFIGS use their known flags; anything else is probed once
+   */
+  async getCapabilities(model: string): Promise<ProviderCapabilities> {
+    const known = MODEL_CONFIGS[model];
+    if (known) {
+      return { tools: known.supportsTools, vision: known.supportsVision, streaming: true };
+    }
+
+    let probe = this.probes.get(model);
+    if (!probe) {
+      probe = this.probe(model);
+      this.probes.set(model, probe);
+      // Don't cache failures (e.g. server not started yet) - try again next call
+      probe.catch(() => this.probes.delete(model));
+    }
+    return probe;
+  }
+
+  private async probe(model: string): Promise<ProviderCapabilities> {
+    let capabilities: ProviderCapabilities;
+
+    // Ollama reports capabilities per model
+    const ollama = await fetchJson(`${this.serverRoot}/api/show`, { model, name: model });
+    if (ollama && Array.isArray(ollama.capabilities)) {
+      capabilities = {
+        tools: ollama.capabilities.includes('tools'),
+        vision: ollama.capabilities.includes('vision'),
+        streaming: true
+      };
+    } else {
+      // llama.cpp reports vision support; tools need a real request to find out
+      const props = await fetchJson(`${this.serverRoot}/props`);
+      capabilities = {
+        tools: await this.probeTools(model),
+        vision: props?.modalities?.vision === true,
+        streaming: true
+      };
+    }
+
+    logger.debug(`Local model ${model}: tools=${capabilities.tools}, vision=${capabilities.vision}`);
+    return capabilities;
+  }
+
+  /**
+   * Send a one-token request with a dummy tool. Servers without tool support reject it
+   * with a 4xx; connection errors are rethrown so the probe runs again later.
+   */
+  private async probeTools(model: string): Promise<boolean> {
+    try {
+      await this.client.chat.completions.create({
+        model,
+        max_tokens: 1,
+        messages: [{ role: 'user', content: 'ping' }],
+        tools: [{
+          type: 'function',
+          function: { name: 'ping', description: 'Capability probe', parameters: { type: 'object', properties: {} } }
+        }]
+      }, { timeout: PROBE_TIMEOUT, maxRetries: 0 });
+      return true;
+    } catch (error) {
+      if (error instanceof OpenAI.APIError && error.status !== undefined && error.status < 500) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * OpenAI-Compatible Provider
+ * Chat Completions backends: OpenRouter, OpenAI and local servers
+ */
+
+import OpenAI from 'openai';
+import { toOpenAITools, parseToolArguments } from '../tools/toolRegistry.js';
+import {
+  LLMProvider,
+  ProviderCapabilities,
+  ChatRequest,
+  ChatResponse,
+  ProviderMessage,
+  ProviderToolCall,
+  LLMUsage,
+  emptyUsage
+} from './types.js';
+
+export interface OpenAIProviderOptions {
+  name: string;
+  apiKey: string;
+  baseURL?: string;
+  defaultHeaders?: Record<string, string>;
+  visionModel?: string;
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+/**
+ * Build a tool call from streamed or returned arguments, repairing malformed JSON where possible
+ */
+function toToolCall(id: string, name: string, rawArguments: string): ProviderToolCall {
+  const parsed = parseToolArguments(rawArguments);
+  return {
+    id,
+    name,
+    arguments: parsed.arguments,
+    rawArguments,
+    ...(parsed.error ? { argumentsError: parsed.error } : {})
+  };
+}
+
+function toUsage(usage: OpenAI.CompletionUsage | null | undefined): LLMUsage {
+  if (!usage) return emptyUsage();
+  const inputTokens = usage.prompt_tokens || 0;
+  const outputTokens = usage.completion_tokens || 0;
+  return { inputTokens, outputTokens, totalTokens: usage.total_tokens || inputTokens + outputTokens };
+}
+
+/**
+ * Convert provider messages to Chat Completions messages
+ */
+function toOpenAIMessages(request: ChatRequest): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+
+  if (request.system) {
+    messages.push({ role: 'system', content: request.system });
+  }
+
+  for (const message of request.messages) {
+    messages.push(toOpenAIMessage(message));
+  }
+
+  return messages;
+}
+
+function toOpenAIMessage(message: ProviderMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'user':
+      if (typeof message.content === 'string') {
+        return { role: 'user', content: message.content };
+      }
+      return {
+        role: 'user',
+        content: message.content.map(part => part.type === 'text'
+          ? { type: 'text' as const, text: part.text }
+          : { type: 'image_url' as const, image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+        )
+      };
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        ...(message.toolCalls && message.toolCalls.length > 0 ? {
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: {
+              name: call.name,
+              // Repaired arguments are sent back clean; unparseable ones as-is so the model sees its mistake
+              arguments: call.argumentsError && call.rawArguments !== undefined ? call.rawArguments : JSON.stringify(call.arguments)
+            }
+          }))
+        } : {})
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly visionModel?: string;
+  protected capabilities: ProviderCapabilities;
+  protected client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.visionModel = options.visionModel;
+    this.capabilities = { tools: true, vision: true, streaming: true, ...options.capabilities };
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      ...(options.baseURL ? { baseURL: options.baseURL } : {}),
+      ...(options.defaultHeaders ? { defaultHeaders: options.defaultHeaders } : {})
+    });
+  }
+
+  async getCapabilities(_model: string): Promise<ProviderCapabilities> {
+    return this.capabilities;
+  }
+
+  private async buildParams(request: ChatRequest) {
+    const capabilities = await this.getCapabilities(request.model);
+    const tools = request.tools && request.tools.length > 0 && capabilities.tools
+      ? toOpenAITools(request.tools)
+      : undefined;
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: toOpenAIMessages(request),
+      tools
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const response = await this.client.chat.completions.create(
+      await this.buildParams(request),
+      { signal: request.signal }
+    );
+    const choice = response.choices[0];
+    const message = choice?.message;
+
+    const toolCalls: ProviderToolCall[] = (message?.tool_calls || []).map(call =>
+      toToolCall(call.id, call.function.name, call.function.arguments)
+    );
+
+    return {
+      content: message?.content || '',
+      toolCalls,
+      usage: toUsage(response.usage),
+      stopReason: choice?.finish_reason || undefined
+    };
+  }
+
+  async stream(
+    request: ChatRequest,
+    onText: (text: string) => void,
+    onToolCall?: (call: ProviderToolCall) => void
+  ): Promise<ChatResponse> {
+    const stream = await this.client.chat.completions.create({
+      ...(await this.buildParams(request)),
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal: request.signal });
+
+    let content = '';
+    let usage = emptyUsage();
+    let stopReason: string | undefined;
+    // Tool call fragments arrive spread over many chunks, keyed by index
+    const partialCalls: Map<number, { id: string; name: string; arguments: string }> = new Map();
+    const announced: Set<number> = new Set();
+
+    const finishCall = (index: number, call: { id: string; name: string; arguments: string }) =>
+      toToolCall(call.id || `call_${index}`, call.name, call.arguments);
+
+    // Calls stream one after another, so a call is complete once a later one starts
+    const announceBefore = (limit: number) => {
+      for (const [index, call] of partialCalls) {
+        if (index < limit && !announced.has(index)) {
+          announced.add(index);
+          onToolCall?.(finishCall(index, call));
+        }
+      }
+    };
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta;
+
+      if (delta?.content) {
+        content += delta.content;
+        onText(delta.content);
+      }
+
+      for (const callDelta of delta?.tool_calls || []) {
+        if (!partialCalls.has(callDelta.index)) {
+          announceBefore(callDelta.index);
+        }
+        const partial = partialCalls.get(callDelta.index) || { id: '', name: '', arguments: '' };
+        if (callDelta.id) partial.id = callDelta.id;
+        if (callDelta.function?.name) partial.name += callDelta.function.name;
+        if (callDelta.function?.arguments) partial.arguments += callDelta.function.arguments;
+        partialCalls.set(callDelta.index, partial);
+      }
+
+      if (choice?.finish_reason) stopReason = choice.finish_reason;
+      // Usage arrives in the final chunk
+      if (chunk.usage) usage = toUsage(chunk.usage);
+    }
+
+    // The last call is only complete if the output wasn't cut off - a truncated one is
+    // never started (the tool loop refuses it)
+    if (stopReason !== 'length') {
+      announceBefore(Infinity);
+    }
+
+    const toolCalls: ProviderToolCall[] = Array.from(partialCalls.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([index, call]) => finishCall(index, call));
+
+    return { content, toolCalls, usage, stopReason };
+  }
+}
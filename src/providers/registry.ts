@@ -0,0 +1,82 @@
+/**
+ * Provider Registry
+ * Maps provider names to factories so agents can be created for any backend
+ */
+
+import {
+  getOpenRouterApiKey,
+  getAnthropicApiKey,
+  getOpenAIApiKey,
+  getLocalBaseUrl,
+  getLocalApiKey,
+  getAvailableProvider
+} from '../config/index.js';
+import { LLMProvider } from './types.js';
+import { OpenAIProvider } from './openaiProvider.js';
+import { AnthropicProvider } from './anthropicProvider.js';
+import { LocalProvider } from './localProvider.js';
+
+export type ProviderFactory = () => LLMProvider;
+
+// Provider Registry - singleton holding a factory per backend
+class ProviderRegistry {
+  private factories: Map<string, ProviderFactory> = new Map();
+
+  register(name: string, factory: ProviderFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Create a provider by name (throws for unknown names or missing API keys)
+   */
+  create(name: string): LLMProvider {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown provider '${name}'. Available: ${this.getNames().join(', ')}`);
+    }
+    return factory();
+  }
+
+  /**
+   * Create the provider for the current environment.
+   * AHURA_PROVIDER picks one explicitly; otherwise AHURA_BASE_URL or the first configured API key wins.
+   */
+  createDefault(): LLMProvider {
+    const name = process.env.AHURA_PROVIDER || getAvailableProvider();
+    if (!name) {
+      throw new Error('No API key found. Set OPENROUTER_API_KEY, ANTHROPIC_API_KEY, OPENAI_API_KEY, or AHURA_BASE_URL');
+    }
+    return this.create(name);
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+// Built-in providers
+providerRegistry.register('openrouter', () => new OpenAIProvider({
+  name: 'openrouter',
+  apiKey: getOpenRouterApiKey(),
+  baseURL: 'https://openrouter.ai/api/v1',
+  defaultHeaders: {
+    'HTTP-Referer': 'https://ahurasense.com',
+    'X-Title': 'Ahura CLI'
+  },
+  visionModel: 'anthropic/claude-sonnet-4'
+}));
+
+providerRegistry.register('anthropic', () => new AnthropicProvider(getAnthropicApiKey()));
+
+providerRegistry.register('openai', () => new OpenAIProvider({
+  name: 'openai',
+  apiKey: getOpenAIApiKey()
+}));
+
+providerRegistry.register('local', () => new LocalProvider(getLocalBaseUrl(), getLocalApiKey()));
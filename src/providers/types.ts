@@ -0,0 +1,107 @@
+/**
+ * LLM Provider Types
+ * Backend-neutral request/response shapes shared by every provider
+ */
+
+import type { ToolDefinition } from '../tools/toolRegistry.js';
+
+/**
+ * Token usage reported by the backend (zeros when it doesn't report any)
+ */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Part of a multimodal user message
+ */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string };   // data is base64
+
+/**
+ * A tool call requested by the model
+ */
+export interface ProviderToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  // Arguments exactly as the model sent them (OpenAI-style backends send a JSON string)
+  rawArguments?: string;
+  // Set when rawArguments couldn't be parsed even after repair (arguments is then empty)
+  argumentsError?: string;
+}
+
+/**
+ * One message in a provider conversation
+ */
+export type ProviderMessage =
+  | { role: 'user'; content: string | ContentPart[] }
+  | { role: 'assistant'; content: string; toolCalls?: ProviderToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string; isError?: boolean };
+
+export interface ChatRequest {
+  model: string;
+  system?: string;
+  messages: ProviderMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Tools the model may call - converted to the backend's schema by the provider
+  tools?: ToolDefinition[];
+  // Cancels the request, including a stream that is mid-generation
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse {
+  content: string;
+  toolCalls: ProviderToolCall[];
+  usage: LLMUsage;
+  stopReason?: string;
+}
+
+/**
+ * What a backend can do with a given model
+ */
+export interface ProviderCapabilities {
+  tools: boolean;
+  vision: boolean;
+  streaming: boolean;
+}
+
+/**
+ * A chat backend. Every agent talks to models through this interface,
+ * so each backend's quirks live in exactly one implementation.
+ */
+export interface LLMProvider {
+  // Registry key, e.g. "openrouter"
+  readonly name: string;
+  // Model used for image input when the agent's own model can't see (optional)
+  readonly visionModel?: string;
+
+  /**
+   * Capabilities for a model - tools are only sent when the model supports them
+   */
+  getCapabilities(model: string): Promise<ProviderCapabilities>;
+
+  /**
+   * Single request/response round trip
+   */
+  chat(request: ChatRequest): Promise<ChatResponse>;
+
+  /**
+   * Same as chat, but text is passed to onText as it arrives and each tool call
+   * is passed to onToolCall as soon as its arguments are complete.
+   * All tool calls are also returned in the final response.
+   */
+  stream(
+    request: ChatRequest,
+    onText: (text: string) => void,
+    onToolCall?: (call: ProviderToolCall) => void
+  ): Promise<ChatResponse>;
+}
+
+export function emptyUsage(): LLMUsage {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
@@ -5,52 +5,224 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { ToolDefinition, ToolResult, toolRegistry } from './toolRegistry.js';
+import * as crypto from 'crypto';
+import { diffLines } from 'diff';
+import { ToolDefinition, ToolResult, toolRegistry, MAX_TOOL_RESULT_CHARS } from './toolRegistry.js';
+import { globFiles, matchesGlob, splitGlobList } from '../utils/fileMatcher.js';
+import { dryRunOverlay } from '../utils/dryRun.js';
 
 // Get current working directory (set by CLI)
 let workingDirectory = process.cwd();
 
 export function setWorkingDirectory(dir: string): void {
   workingDirectory = dir;
+  toolRegistry.setWorkspaceRoot(dir);
 }
 
 export function getWorkingDirectory(): string {
   return workingDirectory;
 }
 
+// read_file paging limits - keep a page under the tool loop's output cap
+const DEFAULT_READ_LIMIT = 2000;
+const MAX_LINE_LENGTH = 2000;
+const MAX_READ_CHARS = MAX_TOOL_RESULT_CHARS - 500;
+
+/**
+ * Heuristic binary check: NUL bytes in the first 8KB
+ */
+function isBinaryBuffer(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, Math.min(buffer.length, 8000));
+  return sample.includes(0);
+}
+
+// Files read by the agent in the current turn, keyed by absolute path
+const readFileState: Map<string, { mtimeMs: number; hash: string }> = new Map();
+
+function hashContent(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Forget which files were read - called at the start of each agent turn
+ */
+export function resetReadTracking(): void {
+  readFileState.clear();
+}
+
+/**
+ * Record the on-disk state of a file the agent has seen (read or written itself)
+ */
+export function recordFileRead(fullPath: string): void {
+  try {
+    const stat = fs.statSync(fullPath);
+    readFileState.set(path.resolve(fullPath), {
+      mtimeMs: stat.mtimeMs,
+      hash: hashContent(fs.readFileSync(fullPath))
+    });
+  } catch {
+    readFileState.delete(path.resolve(fullPath));
+  }
+}
+
+/**
+ * Refuse to modify an existing file the agent hasn't read this turn,
+ * or one that changed on disk since it was read (e.g. edited by the user).
+ * With requireRead false only the second check applies (deletes - binary files can't be read).
+ * Returns an error message for the model, or null if the write may proceed.
+ */
+export function checkFileFreshness(fullPath: string, displayPath: string, requireRead: boolean = true): string | null {
+  if (!fs.existsSync(fullPath) || fs.statSync(fullPath).isDirectory()) {
+    return null;
+  }
+
+  const recorded = readFileState.get(path.resolve(fullPath));
+  if (!recorded) {
+    return requireRead
+      ? `${displayPath} already exists and has not been read yet. Use read_file on it first, then retry.`
+      : null;
+  }
+
+  const stat = fs.statSync(fullPath);
+  if (stat.mtimeMs !== recorded.mtimeMs && hashContent(fs.readFileSync(fullPath)) !== recorded.hash) {
+    return `${displayPath} was modified on disk since you last read it (possibly by the user). Use read_file to get the current content and redo your change on top of it.`;
+  }
+
+  return null;
+}
+
+/**
+ * Count added/removed lines between two versions of a file
+ */
+export function getDiffStat(oldContent: string, newContent: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+
+  for (const change of diffLines(oldContent, newContent)) {
+    if (change.added) additions += change.count || 0;
+    else if (change.removed) deletions += change.count || 0;
+  }
+
+  return { additions, deletions };
+}
+
+// Count non-overlapping occurrences of a substring
+function countOccurrences(content: string, search: string): number {
+  let count = 0;
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    count++;
+    index = content.indexOf(search, index + search.length);
+  }
+  return count;
+}
+
 // Read File Tool
 const readFileTool: ToolDefinition = {
   name: 'read_file',
-  description: 'Read the contents of a file. Returns the file content as text.',
+  description: `Read a text file. Returns line-numbered content (format: "<line number>\\t<text>"; the numbers are not part of the file). Large files are returned in pages of up to ${DEFAULT_READ_LIMIT} lines - use offset/limit to read further.`,
+  readOnly: true,
   parameters: [
     {
       name: 'path',
       type: 'string',
       description: 'The relative or absolute path to the file to read',
-      required: true
+      required: true,
+      isPath: true
+    },
+    {
+      name: 'offset',
+      type: 'integer',
+      description: 'Line number to start reading from, 1-based',
+      required: false,
+      default: 1
+    },
+    {
+      name: 'limit',
+      type: 'integer',
+      description: 'Maximum number of lines to return',
+      required: false,
+      default: DEFAULT_READ_LIMIT,
+      minimum: 1
     },
     {
       name: 'encoding',
       type: 'string',
-      description: 'The file encoding (default: utf-8)',
-      required: false
+      description: 'The file encoding',
+      required: false,
+      default: 'utf-8'
     }
   ],
   execute: async (params): Promise<ToolResult> => {
     const filePath = params.path as string;
     const encoding = (params.encoding as BufferEncoding) || 'utf-8';
+    const offset = Math.max(1, Math.floor(Number(params.offset) || 1));
+    const limit = Math.max(1, Math.floor(Number(params.limit) || DEFAULT_READ_LIMIT));
     
     try {
       const fullPath = path.isAbsolute(filePath) 
         ? filePath 
         : path.join(workingDirectory, filePath);
       
-      if (!fs.existsSync(fullPath)) {
+      if (!dryRunOverlay.exists(fullPath)) {
         return { success: false, error: `File not found: ${filePath}` };
       }
+      if (dryRunOverlay.isDirectory(fullPath)) {
+        return { success: false, error: `${filePath} is a directory. Use list_directory instead.` };
+      }
+      
+      const buffer = dryRunOverlay.readFile(fullPath);
+      if (isBinaryBuffer(buffer)) {
+        return {
+          success: false,
+          error: `${filePath} appears to be a binary file (${buffer.length} bytes) and cannot be shown as text. Use read_image for images.`
+        };
+      }
+      recordFileRead(fullPath);
+      
+      const content = buffer.toString(encoding);
+      if (content.length === 0) {
+        return { success: true, data: `(${filePath} is empty)` };
+      }
+      
+      const lines = content.split(/\r?\n/);
+      if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+      const totalLines = lines.length;
+      
+      if (offset > totalLines) {
+        return { success: false, error: `offset ${offset} is past the end of ${filePath} (${totalLines} lines)` };
+      }
+      
+      // Number the lines, stopping at the line limit or the output budget
+      const output: string[] = [];
+      let chars = 0;
+      let lastLine = offset - 1;
+      let longLines = 0;
+      for (let i = offset - 1; i < totalLines && i < offset - 1 + limit; i++) {
+        let text = lines[i];
+        if (text.length > MAX_LINE_LENGTH) {
+          text = text.substring(0, MAX_LINE_LENGTH) + '... [line truncated]';
+          longLines++;
+        }
+        const numbered = `${String(i + 1).padStart(6)}\t${text}`;
+        if (output.length > 0 && chars + numbered.length + 1 > MAX_READ_CHARS) break;
+        output.push(numbered);
+        chars += numbered.length + 1;
+        lastLine = i + 1;
+      }
+      
+      let result = output.join('\n');
+      if (lastLine < totalLines || offset > 1) {
+        result += `\n\n[Showing lines ${offset}-${lastLine} of ${totalLines}.`;
+        result += lastLine < totalLines
+          ? ` Call read_file with offset=${lastLine + 1} to continue.]`
+          : ' End of file.]';
+      }
+      if (longLines > 0) {
+        result += `\n[${longLines} line(s) longer than ${MAX_LINE_LENGTH} characters were cut.]`;
+      }
       
-      const content = fs.readFileSync(fullPath, encoding);
-      return { success: true, data: content };
+      return { success: true, data: result };
     } catch (error) {
       return { 
         success: false, 
@@ -63,13 +235,15 @@ const readFileTool: ToolDefinition = {
 // Write File Tool
 const writeFileTool: ToolDefinition = {
   name: 'write_file',
-  description: 'Write content to a file. Creates the file if it doesn\'t exist, or overwrites it if it does.',
+  description: 'Write content to a file. Creates the file if it doesn\'t exist, or overwrites it if it does. Existing files must be read with read_file first.',
+  permission: 'edit',
   parameters: [
     {
       name: 'path',
       type: 'string',
       description: 'The relative or absolute path to the file to write',
-      required: true
+      required: true,
+      isPath: true
     },
     {
       name: 'content',
@@ -87,13 +261,14 @@ const writeFileTool: ToolDefinition = {
         ? filePath 
         : path.join(workingDirectory, filePath);
       
-      // Create directory if it doesn't exist
-      const dir = path.dirname(fullPath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
+      const staleError = checkFileFreshness(fullPath, filePath);
+      if (staleError) {
+        return { success: false, error: staleError };
       }
       
-      fs.writeFileSync(fullPath, content, 'utf-8');
+      // Creates missing parent folders
+      dryRunOverlay.writeFile(fullPath, content);
+      recordFileRead(fullPath);
       return { success: true, data: `File written: ${filePath}` };
     } catch (error) {
       return { 
@@ -104,22 +279,155 @@ const writeFileTool: ToolDefinition = {
   }
 };
 
+// Edit File Tool - exact string replacement, so small changes don't resend the whole file
+const editFileTool: ToolDefinition = {
+  name: 'edit_file',
+  description: 'Edit an existing file by replacing exact text. The file must be read with read_file first. old_string must match the file exactly (including whitespace) and be unique unless replace_all is true. Pass "edits" to apply several replacements in order; either all succeed or the file is left untouched.',
+  permission: 'edit',
+  parameters: [
+    {
+      name: 'path',
+      type: 'string',
+      description: 'The relative or absolute path to the file to edit',
+      required: true,
+      isPath: true
+    },
+    {
+      name: 'old_string',
+      type: 'string',
+      description: 'The exact text to replace (include enough surrounding lines to make it unique)',
+      required: false
+    },
+    {
+      name: 'new_string',
+      type: 'string',
+      description: 'The text to replace it with',
+      required: false
+    },
+    {
+      name: 'replace_all',
+      type: 'boolean',
+      description: 'Replace every occurrence of old_string instead of requiring a unique match',
+      required: false,
+      default: false
+    },
+    {
+      name: 'edits',
+      type: 'array',
+      description: 'Multiple replacements applied in order (instead of old_string/new_string)',
+      required: false,
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: [
+          { name: 'old_string', type: 'string', description: 'The exact text to replace', required: true },
+          { name: 'new_string', type: 'string', description: 'The text to replace it with', required: true },
+          { name: 'replace_all', type: 'boolean', description: 'Replace every occurrence', required: false, default: false }
+        ]
+      }
+    }
+  ],
+  execute: async (params): Promise<ToolResult> => {
+    const filePath = params.path as string;
+
+    const edits = Array.isArray(params.edits)
+      ? (params.edits as Array<Record<string, unknown>>)
+      : [{ old_string: params.old_string, new_string: params.new_string, replace_all: params.replace_all }];
+
+    if (edits.length === 0) {
+      return { success: false, error: 'No edits provided. Pass old_string/new_string or a non-empty edits array.' };
+    }
+
+    try {
+      const fullPath = path.isAbsolute(filePath)
+        ? filePath
+        : path.join(workingDirectory, filePath);
+
+      if (!dryRunOverlay.exists(fullPath)) {
+        return { success: false, error: `File not found: ${filePath}. Use write_file to create new files.` };
+      }
+
+      const staleError = checkFileFreshness(fullPath, filePath);
+      if (staleError) {
+        return { success: false, error: staleError };
+      }
+
+      const original = dryRunOverlay.readText(fullPath);
+      let content = original;
+      let replacements = 0;
+
+      for (let i = 0; i < edits.length; i++) {
+        const oldString = edits[i].old_string;
+        const newString = edits[i].new_string;
+        const replaceAll = edits[i].replace_all === true;
+        const label = edits.length > 1 ? `Edit ${i + 1}: ` : '';
+
+        if (typeof oldString !== 'string' || typeof newString !== 'string') {
+          return { success: false, error: `${label}old_string and new_string are required strings` };
+        }
+        if (oldString === '') {
+          return { success: false, error: `${label}old_string must not be empty. Use write_file to create or overwrite a file.` };
+        }
+        if (oldString === newString) {
+          return { success: false, error: `${label}old_string and new_string are identical - nothing to change` };
+        }
+
+        const occurrences = countOccurrences(content, oldString);
+        if (occurrences === 0) {
+          return {
+            success: false,
+            error: `${label}old_string not found in ${filePath}. Read the file again and copy the exact text, including whitespace and indentation. No changes were made.`
+          };
+        }
+        if (occurrences > 1 && !replaceAll) {
+          return {
+            success: false,
+            error: `${label}old_string matches ${occurrences} locations in ${filePath}. Include more surrounding context to make it unique, or set replace_all to true. No changes were made.`
+          };
+        }
+
+        content = replaceAll
+          ? content.split(oldString).join(newString)
+          : content.replace(oldString, () => newString);
+        replacements += replaceAll ? occurrences : 1;
+      }
+
+      dryRunOverlay.writeFile(fullPath, content);
+      recordFileRead(fullPath);
+      const { additions, deletions } = getDiffStat(original, content);
+
+      return {
+        success: true,
+        data: { path: filePath, replacements, additions, deletions }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to edit file: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+};
+
 // List Directory Tool
 const listDirectoryTool: ToolDefinition = {
   name: 'list_directory',
   description: 'List the contents of a directory. Returns file and folder names.',
+  readOnly: true,
   parameters: [
     {
       name: 'path',
       type: 'string',
       description: 'The relative or absolute path to the directory (default: current directory)',
-      required: false
+      required: false,
+      isPath: true
     },
     {
       name: 'recursive',
       type: 'boolean',
-      description: 'Whether to list recursively (default: false)',
-      required: false
+      description: 'Whether to list recursively',
+      required: false,
+      default: false
     }
   ],
   execute: async (params): Promise<ToolResult> => {
@@ -131,12 +439,12 @@ const listDirectoryTool: ToolDefinition = {
         ? dirPath 
         : path.join(workingDirectory, dirPath);
       
-      if (!fs.existsSync(fullPath)) {
+      if (!dryRunOverlay.exists(fullPath)) {
         return { success: false, error: `Directory not found: ${dirPath}` };
       }
       
       const listDir = (dir: string, prefix = ''): string[] => {
-        const items = fs.readdirSync(dir);
+        const items = dryRunOverlay.readdir(dir);
         const results: string[] = [];
         
         for (const item of items) {
@@ -144,10 +452,9 @@ const listDirectoryTool: ToolDefinition = {
           if (item === 'node_modules' || item.startsWith('.')) continue;
           
           const itemPath = path.join(dir, item);
-          const stat = fs.statSync(itemPath);
           const relativePath = prefix ? `${prefix}/${item}` : item;
           
-          if (stat.isDirectory()) {
+          if (dryRunOverlay.isDirectory(itemPath)) {
             results.push(`📁 ${relativePath}/`);
             if (recursive) {
               results.push(...listDir(itemPath, relativePath));
@@ -171,16 +478,82 @@ const listDirectoryTool: ToolDefinition = {
   }
 };
 
+// Glob Files Tool
+const globFilesTool: ToolDefinition = {
+  name: 'glob_files',
+  description: 'Find files by name pattern, e.g. "**/*.ts", "src/**/*.{ts,tsx}" or "**/package.json". Respects .gitignore and .ahuraignore. Results are sorted by modification time, newest first.',
+  readOnly: true,
+  parameters: [
+    {
+      name: 'pattern',
+      type: 'string',
+      description: 'Glob pattern relative to the search directory. Use ** to match any number of directories.',
+      required: true
+    },
+    {
+      name: 'path',
+      type: 'string',
+      description: 'The directory to search in (default: current directory)',
+      required: false,
+      isPath: true
+    },
+    {
+      name: 'limit',
+      type: 'integer',
+      description: 'Maximum number of files to return',
+      required: false,
+      default: 100,
+      minimum: 1
+    }
+  ],
+  execute: async (params): Promise<ToolResult> => {
+    const pattern = params.pattern as string;
+    const dirPath = (params.path as string) || '.';
+    const limit = Math.max(1, Math.floor(Number(params.limit) || 100));
+    
+    try {
+      const fullPath = path.isAbsolute(dirPath) 
+        ? dirPath 
+        : path.join(workingDirectory, dirPath);
+      
+      if (!dryRunOverlay.exists(fullPath) || !dryRunOverlay.isDirectory(fullPath)) {
+        return { success: false, error: `Directory not found: ${dirPath}` };
+      }
+      
+      const matches = await globFiles(fullPath, pattern, { projectRoot: workingDirectory }, dryRunOverlay);
+      if (matches.length === 0) {
+        return { success: true, data: `No files matching "${pattern}"` };
+      }
+      
+      const shown = matches.slice(0, limit).map(m => path.relative(workingDirectory, m.fullPath));
+      const omitted = matches.length - shown.length;
+      
+      return {
+        success: true,
+        data: `Found ${matches.length} file(s) matching "${pattern}":\n${shown.join('\n')}` +
+          (omitted > 0 ? `\n... and ${omitted} more not shown. Use a more specific pattern or path.` : '')
+      };
+    } catch (error) {
+      return { 
+        success: false, 
+        error: `Glob failed: ${error instanceof Error ? error.message : 'Unknown error'}` 
+      };
+    }
+  }
+};
+
 // File Exists Tool
 const fileExistsTool: ToolDefinition = {
   name: 'file_exists',
   description: 'Check if a file or directory exists.',
+  readOnly: true,
   parameters: [
     {
       name: 'path',
       type: 'string',
       description: 'The relative or absolute path to check',
-      required: true
+      required: true,
+      isPath: true
     }
   ],
   execute: async (params): Promise<ToolResult> => {
@@ -191,8 +564,8 @@ const fileExistsTool: ToolDefinition = {
         ? filePath 
         : path.join(workingDirectory, filePath);
       
-      const exists = fs.existsSync(fullPath);
-      const isDirectory = exists && fs.statSync(fullPath).isDirectory();
+      const exists = dryRunOverlay.exists(fullPath);
+      const isDirectory = exists && dryRunOverlay.isDirectory(fullPath);
       
       return { 
         success: true, 
@@ -210,13 +583,15 @@ const fileExistsTool: ToolDefinition = {
 // Delete File Tool
 const deleteFileTool: ToolDefinition = {
   name: 'delete_file',
-  description: 'Delete a file or empty directory.',
+  description: 'Delete a file or empty directory. Files must be read with read_file first.',
+  permission: 'edit',
   parameters: [
     {
       name: 'path',
       type: 'string',
       description: 'The relative or absolute path to delete',
-      required: true
+      required: true,
+      isPath: true
     }
   ],
   execute: async (params): Promise<ToolResult> => {
@@ -227,17 +602,18 @@ const deleteFileTool: ToolDefinition = {
         ? filePath 
         : path.join(workingDirectory, filePath);
       
-      if (!fs.existsSync(fullPath)) {
+      if (!dryRunOverlay.exists(fullPath)) {
         return { success: false, error: `File not found: ${filePath}` };
       }
       
-      const stat = fs.statSync(fullPath);
-      if (stat.isDirectory()) {
-        fs.rmdirSync(fullPath);
-      } else {
-        fs.unlinkSync(fullPath);
+      const staleError = checkFileFreshness(fullPath, filePath, false);
+      if (staleError) {
+        return { success: false, error: staleError };
       }
       
+      dryRunOverlay.deleteFile(fullPath);
+      readFileState.delete(path.resolve(fullPath));
+      
       return { success: true, data: `Deleted: ${filePath}` };
     } catch (error) {
       return { 
@@ -248,89 +624,230 @@ const deleteFileTool: ToolDefinition = {
   }
 };
 
+// search_in_files limits
+const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_LINE_LENGTH = 200;
+const MAX_SEARCH_FILE_SIZE = 2 * 1024 * 1024;
+
 // Search in Files Tool
 const searchInFilesTool: ToolDefinition = {
   name: 'search_in_files',
-  description: 'Search for a pattern in files within a directory.',
+  description: 'Search file contents for a regex pattern. Respects .gitignore and .ahuraignore. Supports context lines, case sensitivity, include/exclude globs, and three output modes: "content" (matching lines), "files_with_matches" (file paths only) and "count" (matches per file). Results are paged with limit/offset.',
+  readOnly: true,
   parameters: [
     {
       name: 'pattern',
       type: 'string',
-      description: 'The text or regex pattern to search for',
+      description: 'The regex pattern to search for (escape special characters for literal text)',
       required: true
     },
     {
       name: 'path',
       type: 'string',
       description: 'The directory to search in (default: current directory)',
+      required: false,
+      isPath: true
+    },
+    {
+      name: 'include',
+      type: 'string',
+      description: 'Only search files matching these globs, comma-separated (e.g. "*.ts, src/**/*.{js,jsx}"). Globs without a slash match file names in any directory.',
+      required: false
+    },
+    {
+      name: 'exclude',
+      type: 'string',
+      description: 'Skip files matching these globs, comma-separated (e.g. "*.test.ts, dist/**")',
       required: false
     },
     {
       name: 'filePattern',
       type: 'string',
-      description: 'File extension filter (e.g., ".ts", ".js")',
+      description: 'File extension filter (e.g., ".ts", ".js"). Prefer include for new searches.',
       required: false
+    },
+    {
+      name: 'case_sensitive',
+      type: 'boolean',
+      description: 'Match case exactly',
+      required: false,
+      default: false
+    },
+    {
+      name: 'output_mode',
+      type: 'string',
+      description: 'What to return',
+      required: false,
+      enum: ['content', 'files_with_matches', 'count'],
+      default: 'content'
+    },
+    {
+      name: 'context',
+      type: 'integer',
+      description: 'Lines of context to show before and after each match (content mode only)',
+      required: false,
+      minimum: 0
+    },
+    {
+      name: 'before_context',
+      type: 'integer',
+      description: 'Lines of context to show before each match (overrides context)',
+      required: false,
+      minimum: 0
+    },
+    {
+      name: 'after_context',
+      type: 'integer',
+      description: 'Lines of context to show after each match (overrides context)',
+      required: false,
+      minimum: 0
+    },
+    {
+      name: 'limit',
+      type: 'integer',
+      description: 'Maximum number of results to return: matches, files or counts depending on output_mode',
+      required: false,
+      default: DEFAULT_SEARCH_LIMIT,
+      minimum: 1
+    },
+    {
+      name: 'offset',
+      type: 'integer',
+      description: 'Number of results to skip, for paging through large result sets',
+      required: false,
+      default: 0,
+      minimum: 0
     }
   ],
   execute: async (params): Promise<ToolResult> => {
     const pattern = params.pattern as string;
     const dirPath = (params.path as string) || '.';
     const filePattern = params.filePattern as string;
-    
+    const outputMode = (params.output_mode as string) || 'content';
+    const limit = Math.max(1, Math.floor(Number(params.limit) || DEFAULT_SEARCH_LIMIT));
+    const offset = Math.max(0, Math.floor(Number(params.offset) || 0));
+    const toLines = (value: unknown, fallback: number) =>
+      value === undefined || value === null ? fallback : Math.max(0, Math.floor(Number(value) || 0));
+    const contextLines = toLines(params.context, 0);
+    const before = toLines(params.before_context, contextLines);
+    const after = toLines(params.after_context, contextLines);
+
+    if (!['content', 'files_with_matches', 'count'].includes(outputMode)) {
+      return { success: false, error: `Invalid output_mode: ${outputMode}. Use content, files_with_matches or count.` };
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, params.case_sensitive === true ? '' : 'i');
+    } catch (error) {
+      return { success: false, error: `Invalid regex pattern: ${error instanceof Error ? error.message : pattern}` };
+    }
+
+    const include = splitGlobList(params.include);
+    const exclude = splitGlobList(params.exclude);
+    if (filePattern) include.push(`*${filePattern}`);
+
+    // Globs without a slash match the file name in any directory
+    const matchesAny = (relPath: string, globs: string[]) => globs.some(glob =>
+      glob.includes('/') ? matchesGlob(relPath, glob) : matchesGlob(path.posix.basename(relPath), glob)
+    );
+
     try {
       const fullPath = path.isAbsolute(dirPath) 
         ? dirPath 
         : path.join(workingDirectory, dirPath);
       
-      const results: Array<{ file: string; line: number; content: string }> = [];
-      const regex = new RegExp(pattern, 'gi');
+      if (!dryRunOverlay.exists(fullPath) || !dryRunOverlay.isDirectory(fullPath)) {
+        return { success: false, error: `Directory not found: ${dirPath}` };
+      }
       
-      const searchDir = (dir: string): void => {
-        const items = fs.readdirSync(dir);
+      // Results are numbered across all files; only [offset, offset + limit) are kept.
+      // The walk stops as soon as one result past the page is found.
+      const output: string[] = [];
+      let resultIndex = 0;
+      let hasMore = false;
+      
+      for await (const file of dryRunOverlay.walkFiles(fullPath, { projectRoot: workingDirectory })) {
+        if (include.length > 0 && !matchesAny(file.path, include)) continue;
+        if (exclude.length > 0 && matchesAny(file.path, exclude)) continue;
         
-        for (const item of items) {
-          if (item === 'node_modules' || item.startsWith('.')) continue;
-          
-          const itemPath = path.join(dir, item);
-          const stat = fs.statSync(itemPath);
-          
-          if (stat.isDirectory()) {
-            searchDir(itemPath);
-          } else if (!filePattern || item.endsWith(filePattern)) {
-            try {
-              const content = fs.readFileSync(itemPath, 'utf-8');
-              const lines = content.split('\n');
-              
-              lines.forEach((line, index) => {
-                // Use match() instead of test() to avoid lastIndex bug with global regex
-                if (line.match(regex)) {
-                  results.push({
-                    file: path.relative(workingDirectory, itemPath),
-                    line: index + 1,
-                    content: line.trim().substring(0, 100)
-                  });
-                }
-              });
-            } catch {
-              // Skip binary files
+        let buffer: Buffer;
+        try {
+          const stat = await dryRunOverlay.stat(file.fullPath);
+          if (stat.size > MAX_SEARCH_FILE_SIZE) continue;
+          buffer = await dryRunOverlay.readFileAsync(file.fullPath);
+        } catch {
+          continue;
+        }
+        if (isBinaryBuffer(buffer)) continue;
+        
+        const displayPath = path.relative(workingDirectory, file.fullPath);
+        const lines = buffer.toString('utf-8').split(/\r?\n/);
+        if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+        const matchLines: number[] = [];
+        for (let i = 0; i < lines.length; i++) {
+          if (regex.test(lines[i])) matchLines.push(i);
+        }
+        if (matchLines.length === 0) continue;
+        
+        if (outputMode !== 'content') {
+          if (resultIndex >= offset + limit) {
+            hasMore = true;
+            break;
+          }
+          if (resultIndex >= offset) {
+            output.push(outputMode === 'count' ? `${displayPath}:${matchLines.length}` : displayPath);
+          }
+          resultIndex++;
+          continue;
+        }
+        
+        // Content mode pages over individual matches
+        const pageStart = Math.max(0, offset - resultIndex);
+        const pageEnd = offset + limit - resultIndex;
+        const selected = matchLines.slice(pageStart, Math.max(pageStart, pageEnd));
+        resultIndex += matchLines.length;
+        
+        if (selected.length > 0) {
+          const matched = new Set(selected);
+          let lastPrinted = -2;
+          for (const lineIndex of selected) {
+            const start = Math.max(0, lineIndex - before, lastPrinted + 1);
+            const end = Math.min(lines.length - 1, lineIndex + after);
+            const newGroup = lastPrinted >= 0 ? start > lastPrinted + 1 : output.length > 0;
+            if ((before > 0 || after > 0) && newGroup) {
+              output.push('--');
+            }
+            for (let i = start; i <= end; i++) {
+              const text = lines[i].length > MAX_SEARCH_LINE_LENGTH
+                ? lines[i].substring(0, MAX_SEARCH_LINE_LENGTH) + '...'
+                : lines[i];
+              output.push(`${displayPath}${matched.has(i) ? ':' : '-'}${i + 1}${matched.has(i) ? ':' : '-'} ${text}`);
             }
+            lastPrinted = Math.max(lastPrinted, end);
           }
         }
-      };
-      
-      searchDir(fullPath);
+        
+        if (resultIndex > offset + limit) {
+          hasMore = true;
+          break;
+        }
+      }
       
-      if (results.length === 0) {
-        return { success: true, data: 'No matches found' };
+      if (output.length === 0) {
+        return { success: true, data: offset > 0 && resultIndex > 0 ? `No more matches (offset ${offset} is past the last result)` : 'No matches found' };
       }
       
-      const formatted = results.slice(0, 20).map(r => 
-        `${r.file}:${r.line} - ${r.content}`
-      ).join('\n');
+      const shown = Math.min(resultIndex, offset + limit) - offset;
+      const unit = outputMode === 'content' ? 'matches' : 'files';
+      const header = `Showing ${unit} ${offset + 1}-${offset + shown}${hasMore ? '' : ` of ${resultIndex}`}:`;
+      const footer = hasMore
+        ? `\n[More results available. Call search_in_files with offset=${offset + shown} to continue, or narrow the search.]`
+        : '';
       
       return { 
         success: true, 
-        data: `Found ${results.length} matches:\n${formatted}${results.length > 20 ? '\n... and more' : ''}` 
+        data: `${header}\n${output.join('\n')}${footer}` 
       };
     } catch (error) {
       return { 
@@ -345,7 +862,9 @@ const searchInFilesTool: ToolDefinition = {
 export function registerFileTools(): void {
   toolRegistry.register(readFileTool);
   toolRegistry.register(writeFileTool);
+  toolRegistry.register(editFileTool);
   toolRegistry.register(listDirectoryTool);
+  toolRegistry.register(globFilesTool);
   toolRegistry.register(fileExistsTool);
   toolRegistry.register(deleteFileTool);
   toolRegistry.register(searchInFilesTool);
@@ -356,12 +875,14 @@ export function registerFileTools(): void {
 const readImageTool: ToolDefinition = {
   name: 'read_image',
   description: 'Read an image file and return its base64 encoding for vision analysis. Supports PNG, JPG, JPEG, GIF, WEBP.',
+  readOnly: true,
   parameters: [
     {
       name: 'path',
       type: 'string',
       description: 'The relative or absolute path to the image file',
-      required: true
+      required: true,
+      isPath: true
     }
   ],
   execute: async (params): Promise<ToolResult> => {
@@ -372,7 +893,7 @@ const readImageTool: ToolDefinition = {
         ? filePath 
         : path.join(workingDirectory, filePath);
       
-      if (!fs.existsSync(fullPath)) {
+      if (!dryRunOverlay.exists(fullPath)) {
         return { success: false, error: `Image not found: ${filePath}` };
       }
       
@@ -383,7 +904,7 @@ const readImageTool: ToolDefinition = {
         return { success: false, error: `Unsupported image format: ${ext}. Supported: ${supportedExts.join(', ')}` };
       }
       
-      const imageBuffer = fs.readFileSync(fullPath);
+      const imageBuffer = dryRunOverlay.readFile(fullPath);
       const base64 = imageBuffer.toString('base64');
       const mimeType = ext === '.png' ? 'image/png' 
         : ext === '.gif' ? 'image/gif'
@@ -6,11 +6,16 @@
 export * from './toolRegistry.js';
 export * from './webSearch.js';
 export * from './fileTools.js';
+export * from './patchTools.js';
+export * from './permissions.js';
 export * from './terminalTools.js';
+export * from './todoTools.js';
 
 import { registerFileTools } from './fileTools.js';
+import { registerPatchTools } from './patchTools.js';
 import { registerWebTools } from './webSearch.js';
 import { registerTerminalTools } from './terminalTools.js';
+import { registerTodoTools } from './todoTools.js';
 
 let toolsRegistered = false;
 
@@ -21,8 +26,10 @@ export function registerAllTools(): void {
   if (toolsRegistered) return;
   
   registerFileTools();
+  registerPatchTools();
   registerWebTools();
   registerTerminalTools();
+  registerTodoTools();
   
   toolsRegistered = true;
   // Tools registered silently
@@ -0,0 +1,278 @@
+/**
+ * Patch Tools
+ * Apply multi-file unified diffs with fuzzy hunk matching
+ */
+
+import * as path from 'path';
+import { applyPatch, parsePatch, ParsedDiff } from 'diff';
+import { ToolDefinition, ToolResult, toolRegistry } from './toolRegistry.js';
+import { getWorkingDirectory, recordFileRead, checkFileFreshness } from './fileTools.js';
+import { dryRunOverlay } from '../utils/dryRun.js';
+
+// Default number of context lines allowed to differ per hunk
+const DEFAULT_FUZZ = 1;
+
+export interface HunkResult {
+  file: string;
+  hunk: number;
+  header: string;
+  applied: boolean;
+}
+
+export interface PatchedFile {
+  path: string;
+  fullPath: string;
+  originalContent: string | null;
+  newContent: string | null;
+}
+
+export interface PatchResult {
+  success: boolean;
+  files: PatchedFile[];
+  hunks: HunkResult[];
+  error?: string;
+}
+
+/**
+ * Strip git-style a/ b/ prefixes and timestamps from a patch file name
+ */
+function normalizePatchPath(fileName: string | undefined): string | null {
+  if (!fileName) return null;
+  const name = fileName.split('\t')[0].trim();
+  if (name === '/dev/null') return null;
+  return name.replace(/^[ab]\//, '');
+}
+
+/**
+ * Apply a unified diff (one or more files) relative to baseDir.
+ * All hunks are applied in memory first; nothing is written unless every
+ * hunk in every file applies. If a write fails midway, files already written
+ * are restored to their original contents.
+ * With checkFreshness, existing files must have been read and be unchanged since (see checkFileFreshness).
+ */
+export function applyUnifiedPatch(
+  patchText: string,
+  options: { baseDir?: string; fuzz?: number; write?: boolean; checkFreshness?: boolean } = {}
+): PatchResult {
+  const baseDir = options.baseDir || getWorkingDirectory();
+  const fuzz = options.fuzz ?? DEFAULT_FUZZ;
+  const write = options.write !== false;
+
+  let diffs: ParsedDiff[];
+  try {
+    diffs = parsePatch(patchText);
+  } catch (error) {
+    return {
+      success: false,
+      files: [],
+      hunks: [],
+      error: `Invalid patch: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+
+  diffs = diffs.filter(d => d.hunks.length > 0);
+  if (diffs.length === 0) {
+    return { success: false, files: [], hunks: [], error: 'Patch contains no hunks' };
+  }
+
+  const files: PatchedFile[] = [];
+  const hunks: HunkResult[] = [];
+
+  for (const diff of diffs) {
+    const oldPath = normalizePatchPath(diff.oldFileName);
+    const newPath = normalizePatchPath(diff.newFileName);
+    const targetPath = newPath || oldPath;
+
+    if (!targetPath) {
+      return { success: false, files: [], hunks, error: 'Patch entry is missing a file name' };
+    }
+
+    const fullPath = path.isAbsolute(targetPath) ? targetPath : path.join(baseDir, targetPath);
+    const sourcePath = oldPath
+      ? (path.isAbsolute(oldPath) ? oldPath : path.join(baseDir, oldPath))
+      : null;
+
+    let originalContent: string | null = null;
+    if (sourcePath) {
+      if (!dryRunOverlay.exists(sourcePath)) {
+        diff.hunks.forEach((hunk, i) => hunks.push({
+          file: targetPath,
+          hunk: i + 1,
+          header: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+          applied: false
+        }));
+        continue;
+      }
+      originalContent = dryRunOverlay.readText(sourcePath);
+    } else if (dryRunOverlay.exists(fullPath)) {
+      // A /dev/null source creates the file - don't let it replace one that exists
+      return {
+        success: false,
+        files: [],
+        hunks,
+        error: `${targetPath} already exists but the patch creates it from /dev/null - diff against its current content instead`
+      };
+    }
+
+    let content = originalContent ?? '';
+    let offset = 0;
+
+    diff.hunks.forEach((hunk, i) => {
+      const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+      const shifted = { ...hunk, oldStart: Math.max(hunk.oldStart + offset, 0) };
+      const result = applyPatch(content, { hunks: [shifted] } as ParsedDiff, { fuzzFactor: fuzz });
+
+      if (result === false) {
+        hunks.push({ file: targetPath, hunk: i + 1, header, applied: false });
+        return;
+      }
+
+      content = result;
+      offset += hunk.newLines - hunk.oldLines;
+      hunks.push({ file: targetPath, hunk: i + 1, header, applied: true });
+    });
+
+    files.push({
+      path: targetPath,
+      fullPath,
+      originalContent: dryRunOverlay.exists(fullPath) ? dryRunOverlay.readText(fullPath) : null,
+      newContent: newPath ? content : null
+    });
+
+    // Renames also remove the old file
+    if (sourcePath && newPath && sourcePath !== fullPath) {
+      files.push({ path: oldPath!, fullPath: sourcePath, originalContent, newContent: null });
+    }
+  }
+
+  const failed = hunks.filter(h => !h.applied);
+  if (failed.length > 0) {
+    return {
+      success: false,
+      files: [],
+      hunks,
+      error: `${failed.length} of ${hunks.length} hunks failed to apply - no files were changed`
+    };
+  }
+
+  if (options.checkFreshness) {
+    for (const file of files) {
+      const staleError = checkFileFreshness(file.fullPath, file.path);
+      if (staleError) {
+        return { success: false, files: [], hunks, error: `${staleError} No files were changed.` };
+      }
+    }
+  }
+
+  if (write) {
+    const written: PatchedFile[] = [];
+    try {
+      for (const file of files) {
+        if (file.newContent === null) {
+          if (dryRunOverlay.exists(file.fullPath)) dryRunOverlay.deleteFile(file.fullPath);
+        } else {
+          dryRunOverlay.writeFile(file.fullPath, file.newContent);
+          recordFileRead(file.fullPath);
+        }
+        written.push(file);
+      }
+    } catch (error) {
+      // Roll back everything written so far
+      for (const file of written.reverse()) {
+        try {
+          if (file.originalContent === null) {
+            if (dryRunOverlay.exists(file.fullPath)) dryRunOverlay.deleteFile(file.fullPath);
+          } else {
+            dryRunOverlay.writeFile(file.fullPath, file.originalContent);
+          }
+        } catch {
+          // Best effort - keep rolling back the rest
+        }
+      }
+      return {
+        success: false,
+        files: [],
+        hunks,
+        error: `Failed to write patched files (changes rolled back): ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  return { success: true, files, hunks };
+}
+
+/**
+ * Format per-hunk results for the model
+ */
+export function formatPatchReport(result: PatchResult): string {
+  const lines = result.hunks.map(h =>
+    `${h.applied ? '✓' : '✗'} ${h.file} hunk ${h.hunk} ${h.header}${h.applied ? '' : ' - context not found'}`
+  );
+  return lines.join('\n');
+}
+
+// Apply Patch Tool
+const applyPatchTool: ToolDefinition = {
+  name: 'apply_patch',
+  description: 'Apply a unified diff (as produced by "git diff" or "diff -u") to one or more files. Hunks may match with a few lines of context drift (fuzz). If any hunk fails, no file is changed and the per-hunk report explains which ones failed.',
+  permission: 'edit',
+  parameters: [
+    {
+      name: 'patch',
+      type: 'string',
+      description: 'The unified diff text, including ---/+++ file headers and @@ hunk headers',
+      required: true
+    },
+    {
+      name: 'fuzz',
+      type: 'integer',
+      description: 'Number of context lines per hunk allowed to differ from the file',
+      required: false,
+      default: DEFAULT_FUZZ,
+      minimum: 0
+    }
+  ],
+  getPaths: (params) => {
+    if (typeof params.patch !== 'string') return [];
+    return parsePatch(params.patch).flatMap(diff =>
+      [normalizePatchPath(diff.oldFileName), normalizePatchPath(diff.newFileName)]
+        .filter((p): p is string => p !== null)
+    );
+  },
+  execute: async (params): Promise<ToolResult> => {
+    const patchText = params.patch as string;
+    const fuzz = typeof params.fuzz === 'number' ? Math.max(0, Math.floor(params.fuzz)) : DEFAULT_FUZZ;
+
+    if (!patchText || !patchText.trim()) {
+      return { success: false, error: 'patch is required' };
+    }
+
+    try {
+      const result = applyUnifiedPatch(patchText, { fuzz, checkFreshness: true });
+      const report = formatPatchReport(result);
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: `${result.error}${report ? `\n${report}` : ''}\nRead the affected files again and regenerate the failing hunks with exact context.`
+        };
+      }
+
+      const changed = result.files.map(f => f.newContent === null ? `deleted ${f.path}` : f.path);
+      return {
+        success: true,
+        data: `Patch applied to ${result.files.length} file(s): ${changed.join(', ')}\n${report}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to apply patch: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+};
+
+// Register patch tools
+export function registerPatchTools(): void {
+  toolRegistry.register(applyPatchTool);
+}
@@ -0,0 +1,322 @@
+/**
+ * Tool Permissions
+ * Decides whether a file-changing or command tool call may run,
+ * asking the user through a prompt registered by the CLI
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import type { ToolDefinition } from './toolRegistry.js';
+import { loadPermissionSettings, getSettingsPaths, PermissionRule, PermissionSettings } from '../config/settings.js';
+import { matchesGlob } from '../utils/fileMatcher.js';
+import { dryRunOverlay } from '../utils/dryRun.js';
+
+export type PermissionMode = 'ask' | 'auto-accept-edits' | 'plan-only' | 'bypass';
+
+export const PERMISSION_MODES: Record<PermissionMode, string> = {
+  'ask': 'Ask before editing files or running commands',
+  'auto-accept-edits': 'Apply file edits automatically, ask before running commands',
+  'plan-only': 'Read-only: file edits and commands are refused',
+  'bypass': 'Run every tool without asking'
+};
+
+export type PermissionDecision = 'allow-once' | 'allow-always' | 'deny';
+
+export interface PermissionRequest {
+  toolName: string;
+  kind: 'edit' | 'command';
+  // One-line summary, e.g. "Edit src/app.ts" or "Run npm test"
+  title: string;
+  // Unified diff for edits, the command line for commands
+  preview: string;
+  // Key remembered when the user picks allow-always
+  key: string;
+  // What allow-always covers, e.g. "this command" or "edits to src/app.ts"
+  scope: string;
+}
+
+export type PermissionPrompt = (request: PermissionRequest) => Promise<PermissionDecision>;
+
+export interface PermissionCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+// Longest preview shown in the prompt
+const MAX_PREVIEW_LINES = 60;
+
+function limitLines(text: string): string {
+  const lines = text.split('\n');
+  if (lines.length <= MAX_PREVIEW_LINES) return text;
+  return `${lines.slice(0, MAX_PREVIEW_LINES).join('\n')}\n... ${lines.length - MAX_PREVIEW_LINES} more lines`;
+}
+
+function readIfExists(fullPath: string): string | null {
+  try {
+    return dryRunOverlay.readText(fullPath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Diff without the "Index:"/"===" header lines
+ */
+function diffPreview(displayPath: string, oldContent: string, newContent: string): string {
+  const patch = createTwoFilesPatch(displayPath, displayPath, oldContent, newContent, '', '', { context: 3 });
+  return patch
+    .split('\n')
+    .filter(line => !line.startsWith('Index:') && !line.startsWith('===='))
+    .map(line => (line.startsWith('---') || line.startsWith('+++')) ? line.trimEnd() : line)
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Apply edit_file replacements in memory for the preview.
+ * Missing anchors are left alone - the tool itself reports them.
+ */
+function previewEdits(content: string, params: Record<string, unknown>): string {
+  const edits = Array.isArray(params.edits)
+    ? (params.edits as Array<Record<string, unknown>>)
+    : [{ old_string: params.old_string, new_string: params.new_string, replace_all: params.replace_all }];
+
+  let result = content;
+  for (const edit of edits) {
+    const oldString = typeof edit.old_string === 'string' ? edit.old_string : '';
+    const newString = typeof edit.new_string === 'string' ? edit.new_string : '';
+    if (!oldString) continue;
+    result = edit.replace_all === true
+      ? result.split(oldString).join(newString)
+      : result.replace(oldString, () => newString);
+  }
+  return result;
+}
+
+/**
+ * Build the prompt shown to the user for a tool call.
+ * Edits are keyed by the files they touch, so allow-always covers those files only.
+ */
+export function describeToolCall(
+  tool: ToolDefinition,
+  params: Record<string, unknown>,
+  workspaceRoot: string,
+  paths: string[] = []
+): PermissionRequest {
+  const kind = tool.permission || 'edit';
+
+  if (kind === 'command') {
+    const command = String(params.command || '');
+    return {
+      toolName: tool.name,
+      kind,
+      title: `Run ${command.split('\n')[0]}`,
+      preview: `$ ${command}`,
+      key: `${tool.name}(${command})`,
+      scope: 'this command'
+    };
+  }
+
+  const filePath = typeof params.path === 'string' ? params.path : '';
+  const fullPath = path.isAbsolute(filePath) ? filePath : path.join(workspaceRoot, filePath);
+  const displayPath = path.relative(workspaceRoot, fullPath) || filePath;
+  const files = Array.from(new Set((paths.length > 0 ? paths : [filePath]).map(file => {
+    const full = path.isAbsolute(file) ? file : path.join(workspaceRoot, file);
+    return path.relative(workspaceRoot, full).split(path.sep).join('/') || file;
+  }))).sort().join(', ');
+  const request = { toolName: tool.name, kind, key: `${tool.name}(${files})`, scope: `${tool.name} on ${files}` };
+
+  switch (tool.name) {
+    case 'write_file': {
+      const existing = readIfExists(fullPath);
+      const content = String(params.content ?? '');
+      return {
+        ...request,
+        title: existing === null ? `Create ${displayPath}` : `Overwrite ${displayPath}`,
+        preview: limitLines(diffPreview(displayPath, existing ?? '', content))
+      };
+    }
+    case 'edit_file': {
+      const existing = readIfExists(fullPath) ?? '';
+      return {
+        ...request,
+        title: `Edit ${displayPath}`,
+        preview: limitLines(diffPreview(displayPath, existing, previewEdits(existing, params)))
+      };
+    }
+    case 'delete_file':
+      return { ...request, title: `Delete ${displayPath}`, preview: `rm ${displayPath}` };
+    case 'apply_patch':
+      return { ...request, title: 'Apply patch', preview: limitLines(String(params.patch || '').trim()) };
+    default:
+      return { ...request, title: `${tool.name} ${displayPath}`.trim(), preview: JSON.stringify(params, null, 2) };
+  }
+}
+
+/**
+ * Match a command against a rule specifier.
+ * "npm test:*" matches "npm test" and "npm test <args>" (not "npm testfoo");
+ * otherwise * is a wildcard and the whole command must match.
+ * Chained commands match if any part does.
+ */
+function matchesCommand(command: string, specifier: string): boolean {
+  const pattern = specifier.endsWith(':*')
+    ? null
+    : new RegExp(`^${specifier.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+  const prefix = specifier.slice(0, -2).trim().replace(/\s+/g, ' ');
+  return command.split(/&&|\|\||[;&|\n]/).some(part => {
+    const normalized = part.trim().replace(/\s+/g, ' ');
+    return pattern ? pattern.test(normalized) : normalized === prefix || normalized.startsWith(`${prefix} `);
+  });
+}
+
+/**
+ * Commands that chain or substitute others (&&, ;, |, $(...)) can hide
+ * extra work behind an allowed prefix, so allow rules never match them
+ */
+function chainsCommands(command: string): boolean {
+  return /[;&|`\n]|\$\(/.test(command);
+}
+
+/**
+ * Check whether a settings rule covers a tool call
+ */
+export function matchesPermissionRule(
+  rule: PermissionRule,
+  tool: ToolDefinition,
+  params: Record<string, unknown>,
+  workspaceRoot: string,
+  paths: string[]
+): boolean {
+  if (rule.tool !== tool.name) return false;
+  if (!rule.specifier) return true;
+
+  if (tool.permission === 'command') {
+    return matchesCommand(String(params.command || ''), rule.specifier);
+  }
+
+  // Path rules are globs relative to the project root; every path must match
+  if (paths.length === 0) return false;
+  return paths.every(filePath => {
+    const fullPath = path.isAbsolute(filePath) ? filePath : path.join(workspaceRoot, filePath);
+    const relPath = path.relative(workspaceRoot, fullPath).split(path.sep).join('/');
+    return matchesGlob(relPath, rule.specifier!);
+  });
+}
+
+// Permission Manager - singleton consulted by the tool registry
+class PermissionManager {
+  private mode: PermissionMode = 'ask';
+  private prompt: PermissionPrompt | null = null;
+  private alwaysAllowed: Set<string> = new Set();
+  private settings: PermissionSettings = { allow: [], deny: [] };
+  private settingsKey: string | null = null;
+
+  getMode(): PermissionMode {
+    return this.mode;
+  }
+
+  setMode(mode: PermissionMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Register the interactive prompt. Without one, calls are allowed
+   * (library use and non-interactive callers keep working).
+   */
+  setPrompt(prompt: PermissionPrompt | null): void {
+    this.prompt = prompt;
+  }
+
+  getAlwaysAllowed(): string[] {
+    return Array.from(this.alwaysAllowed);
+  }
+
+  clearAlwaysAllowed(): void {
+    this.alwaysAllowed.clear();
+  }
+
+  /**
+   * Allow/deny rules from settings files, reloaded when the project
+   * changes or a settings file is edited
+   */
+  getRules(workspaceRoot: string): PermissionSettings {
+    const key = [workspaceRoot, ...getSettingsPaths(workspaceRoot).map(settingsPath => {
+      try {
+        return fs.statSync(settingsPath).mtimeMs;
+      } catch {
+        return 0;
+      }
+    })].join('|');
+
+    if (key !== this.settingsKey) {
+      this.settings = loadPermissionSettings(workspaceRoot);
+      this.settingsKey = key;
+    }
+    return this.settings;
+  }
+
+  /**
+   * Decide whether a tool call may run. Denials carry a reason
+   * written for the model so it can change course.
+   * Deny rules apply to every tool and in every mode.
+   */
+  async check(
+    tool: ToolDefinition,
+    params: Record<string, unknown>,
+    workspaceRoot: string,
+    paths: string[] = []
+  ): Promise<PermissionCheck> {
+    const rules = this.getRules(workspaceRoot);
+
+    const denyRule = rules.deny.find(rule => matchesPermissionRule(rule, tool, params, workspaceRoot, paths));
+    if (denyRule) {
+      return {
+        allowed: false,
+        reason: `Permission denied: blocked by the project rule "${denyRule.raw}" (${denyRule.source}). Do not retry this call - take a different approach or ask the user.`
+      };
+    }
+
+    if (!tool.permission || this.mode === 'bypass') {
+      return { allowed: true };
+    }
+
+    if (this.mode === 'plan-only') {
+      return {
+        allowed: false,
+        reason: `Permission denied: plan-only mode is active, so ${tool.name} cannot run. Do not modify files or run commands - describe the changes you would make instead.`
+      };
+    }
+
+    if (this.mode === 'auto-accept-edits' && tool.permission === 'edit') {
+      return { allowed: true };
+    }
+
+    const chained = tool.permission === 'command' && chainsCommands(String(params.command || ''));
+    if (!chained && rules.allow.some(rule => matchesPermissionRule(rule, tool, params, workspaceRoot, paths))) {
+      return { allowed: true };
+    }
+
+    const request = describeToolCall(tool, params, workspaceRoot, paths);
+    if (this.alwaysAllowed.has(request.key) || !this.prompt) {
+      return { allowed: true };
+    }
+
+    const decision = await this.prompt(request);
+    if (decision === 'allow-always') {
+      this.alwaysAllowed.add(request.key);
+    }
+    if (decision === 'deny') {
+      return {
+        allowed: false,
+        reason: `Permission denied: the user declined "${request.title}". Do not retry the same call. Ask the user how they would like to proceed, or take a different approach.`
+      };
+    }
+
+    return { allowed: true };
+  }
+}
+
+export const permissionManager = new PermissionManager();
@@ -4,22 +4,77 @@
  * With OS detection and command adaptation
  */
 
-import { execSync, spawn, ChildProcess } from 'child_process';
-import { ToolDefinition, ToolResult, toolRegistry } from './toolRegistry.js';
+import { spawn, ChildProcess } from 'child_process';
+import * as net from 'net';
+import { ToolDefinition, ToolResult, ToolContext, toolRegistry, truncateToolResultTail, MAX_TOOL_RESULT_CHARS } from './toolRegistry.js';
 import { getWorkingDirectory } from './fileTools.js';
-import { detectOS, getDefaultShell, adaptCommand, isCommandSafe } from '../utils/robustness.js';
-
-// Track running background processes
-const runningProcesses: Map<string, ChildProcess> = new Map();
+import { detectOS, getDefaultShell, adaptCommand, isCommandSafe, onShutdown } from '../utils/robustness.js';
+import { dryRunOverlay } from '../utils/dryRun.js';
 
 // Detect OS once at module load
 const currentOS = detectOS();
 const defaultShell = getDefaultShell();
 
+// run_command limits
+const DEFAULT_COMMAND_TIMEOUT = 120000;
+// Output kept in memory while a command runs; older output is dropped
+const MAX_BUFFERED_OUTPUT = 1024 * 1024;
+// Quiet time after a prompt-like line before assuming the command wants input
+const INPUT_WAIT_MS = 5000;
+// How often progress is reported and cancellation is checked
+const POLL_INTERVAL_MS = 200;
+
+// Unfinished last lines (no newline yet) that look like the command is asking for input.
+// A bare trailing "?" is not enough - plenty of commands print a question and carry on.
+const INPUT_PROMPT_PATTERNS = [
+  /\((y|yes)\/(n|no)\)|\[(y|yes)\/(n|no)\]|\(y\)\s*$/i,
+  /press (any key|enter)/i,
+  /(password|passphrase)[^:]*:\s*$/i,
+  // "Enter your email: ", "Username: " - a prompt word, with the cursor left after the colon
+  /\b(enter|type|input|choose|select|username|name|email|token|code)\b[^:]*:[ \t]+$/i,
+  // "Project name?: "
+  /\?\s*:[ \t]*$/,
+  // Interactive prompt libraries (inquirer "? Name:", clack "◆  Name")
+  /^[?◆◇]\s/
+];
+
+// Returned instead of output when dry-run mode records a command
+const DRY_RUN_NOTE = 'Dry run: the command was recorded for the user but not executed. Do not rely on its output or side effects.';
+
+/**
+ * Kill a process started with detached: true, including its children
+ */
+export function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) return;
+  try {
+    if (currentOS === 'windows') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+    } else {
+      process.kill(-child.pid, 'SIGTERM');
+    }
+  } catch {
+    child.kill('SIGTERM');
+  }
+}
+
+function lastNonEmptyLine(text: string): string {
+  const lines = text.split(/\r?\n|\r/).map(line => line.trim()).filter(Boolean);
+  return lines.length > 0 ? lines[lines.length - 1] : '';
+}
+
+/**
+ * Text after the last line break - what a prompt leaves with the cursor still on its line
+ */
+function unfinishedLine(text: string): string {
+  const lines = text.split(/\r?\n|\r/);
+  return lines[lines.length - 1];
+}
+
 // Run Command Tool
 const runCommandTool: ToolDefinition = {
   name: 'run_command',
-  description: `Execute a shell command and return the output. Use for npm, git, and other CLI tools. Current OS: ${currentOS}, Shell: ${defaultShell}`,
+  description: `Execute a shell command and return its exit code and output (the end of long output is kept). Commands get no stdin: use non-interactive flags such as --yes or -y. Use start_process for servers and watchers. Current OS: ${currentOS}, Shell: ${defaultShell}`,
+  permission: 'command',
   parameters: [
     {
       name: 'command',
@@ -29,20 +84,23 @@ const runCommandTool: ToolDefinition = {
     },
     {
       name: 'timeout',
-      type: 'number',
-      description: 'Timeout in milliseconds (default: 30000)',
-      required: false
+      type: 'integer',
+      description: 'Timeout in milliseconds',
+      required: false,
+      default: DEFAULT_COMMAND_TIMEOUT,
+      minimum: 1
     },
     {
       name: 'adaptForOS',
       type: 'boolean',
-      description: 'Automatically adapt Unix commands for Windows (default: true)',
-      required: false
+      description: 'Automatically adapt Unix commands for Windows',
+      required: false,
+      default: true
     }
   ],
-  execute: async (params): Promise<ToolResult> => {
+  execute: async (params, context): Promise<ToolResult> => {
     let command = params.command as string;
-    const timeout = (params.timeout as number) || 30000;
+    const timeout = (params.timeout as number) || DEFAULT_COMMAND_TIMEOUT;
     const adaptForOS = params.adaptForOS !== false;
     
     // Security: Check if command is safe
@@ -51,40 +109,228 @@ const runCommandTool: ToolDefinition = {
       return { success: false, error: `Command blocked: ${safetyCheck.reason}` };
     }
     
+    if (dryRunOverlay.isEnabled()) {
+      dryRunOverlay.recordCommand(command, getWorkingDirectory());
+      return { success: true, data: DRY_RUN_NOTE };
+    }
+    
     // Adapt command for current OS if requested
     if (adaptForOS) {
       command = adaptCommand(command);
     }
     
+    let child: ChildProcess;
     try {
-      const output = execSync(command, {
+      child = spawn(command, {
         cwd: getWorkingDirectory(),
-        encoding: 'utf-8',
-        timeout,
-        maxBuffer: 10 * 1024 * 1024, // 10MB
         shell: defaultShell,
-        env: { ...process.env, FORCE_COLOR: '0' }
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: currentOS !== 'windows',
+        env: { ...process.env, FORCE_COLOR: '0', GIT_TERMINAL_PROMPT: '0' }
       });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Command failed to start: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+    
+    let output = '';
+    let droppedChars = 0;
+    let lastOutputAt = Date.now();
+    let reportedLine = '';
+    
+    const onData = (data: Buffer) => {
+      output += data.toString();
+      lastOutputAt = Date.now();
+      if (output.length > MAX_BUFFERED_OUTPUT) {
+        droppedChars += output.length - MAX_BUFFERED_OUTPUT;
+        output = output.substring(output.length - MAX_BUFFERED_OUTPUT);
+      }
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    
+    const startedAt = Date.now();
+    const outcome = await new Promise<{ code: number | null; reason?: 'timeout' | 'aborted' | 'input' | 'error'; message?: string }>((resolve) => {
+      let settled = false;
+      const finish = (result: { code: number | null; reason?: 'timeout' | 'aborted' | 'input' | 'error'; message?: string }) => {
+        if (settled) return;
+        settled = true;
+        clearInterval(poll);
+        resolve(result);
+      };
       
-      return { success: true, data: output.trim() || '(command completed with no output)' };
-    } catch (error: unknown) {
-      const execError = error as { stderr?: string; stdout?: string; message: string };
-      const stderr = execError.stderr || '';
-      const stdout = execError.stdout || '';
-      const message = execError.message || 'Unknown error';
+      const poll = setInterval(() => {
+        const lastLine = lastNonEmptyLine(output.slice(-2000));
+        if (lastLine && lastLine !== reportedLine) {
+          reportedLine = lastLine;
+          context?.onProgress?.(`   ${lastLine.substring(0, 100)}`);
+        }
+        
+        if (context?.shouldAbort?.()) {
+          killProcessTree(child);
+          finish({ code: null, reason: 'aborted' });
+        } else if (Date.now() - startedAt > timeout) {
+          killProcessTree(child);
+          finish({ code: null, reason: 'timeout' });
+        } else if (Date.now() - lastOutputAt > INPUT_WAIT_MS) {
+          const promptLine = unfinishedLine(output.slice(-2000));
+          if (promptLine.trim() && INPUT_PROMPT_PATTERNS.some(pattern => pattern.test(promptLine))) {
+            killProcessTree(child);
+            finish({ code: null, reason: 'input', message: promptLine.trim() });
+          }
+        }
+      }, POLL_INTERVAL_MS);
       
-      return { 
-        success: false, 
-        error: `Command failed: ${message}\n${stderr}\n${stdout}`.trim()
-      };
+      child.on('error', (error) => finish({ code: null, reason: 'error', message: error.message }));
+      child.on('close', (code) => finish({ code }));
+    });
+    
+    const combined = (droppedChars > 0 ? `[${droppedChars} earlier characters dropped]\n` : '') + output.trim();
+    const tail = truncateToolResultTail(combined || '(no output)', MAX_TOOL_RESULT_CHARS - 500);
+    
+    switch (outcome.reason) {
+      case 'aborted':
+        return { success: false, error: `Command cancelled by the user.\n${tail}` };
+      case 'timeout':
+        return { success: false, error: `Command timed out after ${timeout}ms and was stopped. Use start_process for long-running commands.\n${tail}` };
+      case 'input':
+        return {
+          success: false,
+          error: `Command appears to be waiting for input ("${outcome.message}") and was stopped. Commands cannot read stdin - re-run with non-interactive flags (e.g. --yes, -y, --no-input) or pipe the answer in.\n${tail}`
+        };
+      case 'error':
+        return { success: false, error: `Command failed to start: ${outcome.message}` };
+    }
+    
+    if (outcome.code === 0) {
+      return { success: true, data: `Exit code: 0\n${combined ? tail : '(command completed with no output)'}` };
     }
+    
+    return { 
+      success: false, 
+      error: `Command failed with exit code ${outcome.code}\n${tail}`
+    };
   }
 };
 
+// start_process / read_process_output limits
+const MAX_PROCESS_OUTPUT = 256 * 1024;
+const DEFAULT_READ_OUTPUT_CHARS = 4000;
+const DEFAULT_WAIT_TIMEOUT = 30000;
+
+/**
+ * Bounded log buffer addressed by absolute offsets, so readers can page
+ * with "since" even after old output has been discarded
+ */
+class OutputBuffer {
+  private text = '';
+  private discarded = 0;
+
+  constructor(private readonly maxChars: number) {}
+
+  get totalLength(): number {
+    return this.discarded + this.text.length;
+  }
+
+  append(chunk: string): void {
+    this.text += chunk;
+    if (this.text.length > this.maxChars) {
+      const excess = this.text.length - this.maxChars;
+      this.text = this.text.substring(excess);
+      this.discarded += excess;
+    }
+  }
+
+  read(since: number, maxChars: number = Infinity): { text: string; startOffset: number; nextOffset: number; dropped: number } {
+    const startOffset = Math.min(Math.max(since, this.discarded), this.totalLength);
+    const start = startOffset - this.discarded;
+    const text = this.text.substring(start, start + maxChars);
+    return {
+      text,
+      startOffset,
+      nextOffset: startOffset + text.length,
+      dropped: Math.max(0, this.discarded - since)
+    };
+  }
+}
+
+interface ManagedProcess {
+  id: string;
+  name: string;
+  command: string;
+  child: ChildProcess;
+  startedAt: Date;
+  // null while running
+  exitCode: number | string | null;
+  output: OutputBuffer;
+}
+
+// Track background processes (exited ones stay until stopped, so logs remain readable)
+const runningProcesses: Map<string, ManagedProcess> = new Map();
+
+/**
+ * Check whether something accepts TCP connections on a local port
+ */
+function isPortOpen(port: number, host: string): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = net.connect({ port, host });
+    const done = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.setTimeout(500, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+/**
+ * Wait for a process's output to match a pattern or for a port to open
+ */
+async function waitUntilReady(
+  managed: ManagedProcess,
+  target: { pattern: RegExp | null; port: number | null },
+  timeout: number,
+  context?: ToolContext
+): Promise<'ready' | 'exited' | 'timeout' | 'aborted'> {
+  const startedAt = Date.now();
+  let reportedLine = '';
+
+  while (Date.now() - startedAt < timeout) {
+    if (target.pattern && target.pattern.test(managed.output.read(0).text)) return 'ready';
+    if (target.port !== null && (await isPortOpen(target.port, '127.0.0.1') || await isPortOpen(target.port, '::1'))) return 'ready';
+    if (managed.exitCode !== null) return 'exited';
+    if (context?.shouldAbort?.()) return 'aborted';
+
+    const lastLine = lastNonEmptyLine(managed.output.read(Math.max(0, managed.output.totalLength - 2000)).text);
+    if (lastLine && lastLine !== reportedLine) {
+      reportedLine = lastLine;
+      context?.onProgress?.(`   ${lastLine.substring(0, 100)}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+
+  return 'timeout';
+}
+
+/**
+ * Stop every background process (called on CLI shutdown)
+ */
+export function stopAllProcesses(): void {
+  for (const managed of runningProcesses.values()) {
+    killProcessTree(managed.child);
+  }
+  runningProcesses.clear();
+}
+
 // Start Background Process Tool
 const startProcessTool: ToolDefinition = {
   name: 'start_process',
-  description: 'Start a long-running background process (like a dev server). Returns a process ID.',
+  description: 'Start a long-running background process (like a dev server). Returns a process ID. Use waitFor to block until the process is ready, and read_process_output to see its logs later.',
+  permission: 'command',
   parameters: [
     {
       name: 'command',
@@ -97,56 +343,110 @@ const startProcessTool: ToolDefinition = {
       type: 'string',
       description: 'A name to identify this process',
       required: true
+    },
+    {
+      name: 'waitFor',
+      type: 'string',
+      description: 'Wait until ready: a regex to look for in the output (e.g. "ready|listening on") or a port number that must accept connections (e.g. "3000")',
+      required: false
+    },
+    {
+      name: 'waitTimeout',
+      type: 'integer',
+      description: 'How long to wait for waitFor in milliseconds',
+      required: false,
+      default: DEFAULT_WAIT_TIMEOUT,
+      minimum: 1
     }
   ],
-  execute: async (params): Promise<ToolResult> => {
+  execute: async (params, context): Promise<ToolResult> => {
     const command = params.command as string;
     const name = params.name as string;
+    const waitFor = params.waitFor !== undefined && params.waitFor !== null ? String(params.waitFor).trim() : '';
+    const waitTimeout = (params.waitTimeout as number) || DEFAULT_WAIT_TIMEOUT;
+    
+    const safetyCheck = isCommandSafe(command);
+    if (!safetyCheck.safe) {
+      return { success: false, error: `Command blocked: ${safetyCheck.reason}` };
+    }
+    
+    if (dryRunOverlay.isEnabled()) {
+      dryRunOverlay.recordCommand(command, getWorkingDirectory());
+      return { success: true, data: DRY_RUN_NOTE };
+    }
+    
+    const port = /^\d+$/.test(waitFor) ? parseInt(waitFor, 10) : null;
+    let readyPattern: RegExp | null = null;
+    if (waitFor && port === null) {
+      try {
+        readyPattern = new RegExp(waitFor, 'i');
+      } catch (error) {
+        return { success: false, error: `Invalid waitFor pattern: ${error instanceof Error ? error.message : waitFor}` };
+      }
+    }
     
     try {
-      // Parse command into parts
-      const parts = command.split(' ');
-      const cmd = parts[0];
-      const args = parts.slice(1);
-      
-      const child = spawn(cmd, args, {
+      const child = spawn(command, {
         cwd: getWorkingDirectory(),
-        detached: true,
-        stdio: 'pipe',
-        shell: true,
+        shell: defaultShell,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: currentOS !== 'windows',
         env: { ...process.env, FORCE_COLOR: '0' }
       });
       
       const processId = `${name}-${Date.now()}`;
-      runningProcesses.set(processId, child);
+      const managed: ManagedProcess = {
+        id: processId,
+        name,
+        command,
+        child,
+        startedAt: new Date(),
+        exitCode: null,
+        output: new OutputBuffer(MAX_PROCESS_OUTPUT)
+      };
+      runningProcesses.set(processId, managed);
       
       // Capture output
-      let output = '';
-      child.stdout?.on('data', (data) => {
-        output += data.toString();
+      child.stdout?.on('data', (data) => managed.output.append(data.toString()));
+      child.stderr?.on('data', (data) => managed.output.append(data.toString()));
+      
+      // Keep exited processes so their logs can still be read
+      child.on('exit', (code, signal) => {
+        managed.exitCode = code ?? (signal ? `killed (${signal})` : 'exited');
       });
-      child.stderr?.on('data', (data) => {
-        output += data.toString();
+      child.on('error', (error) => {
+        managed.output.append(`\n${error.message}\n`);
+        managed.exitCode = 'failed to start';
       });
       
-      // Clean up on exit
-      child.on('exit', () => {
-        runningProcesses.delete(processId);
-      });
+      const readiness = waitFor
+        ? await waitUntilReady(managed, { pattern: readyPattern, port }, waitTimeout, context)
+        : await new Promise<'exited' | 'started'>(resolve => setTimeout(() => resolve(managed.exitCode !== null ? 'exited' : 'started'), 1000));
       
-      // Wait a bit to see if it starts successfully
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const recent = managed.output.read(Math.max(0, managed.output.totalLength - 2000));
       
-      if (child.exitCode !== null) {
+      if (readiness === 'exited') {
         return { 
           success: false, 
-          error: `Process exited immediately with code ${child.exitCode}\n${output}` 
+          error: `Process exited with code ${managed.exitCode} before it was ready\n${recent.text}` 
         };
       }
       
+      if (readiness === 'aborted') {
+        killProcessTree(child);
+        runningProcesses.delete(processId);
+        return { success: false, error: 'Cancelled by the user - the process was stopped' };
+      }
+      
+      const status = readiness === 'ready'
+        ? `Process '${name}' is ready (${port !== null ? `port ${port} is accepting connections` : `output matched /${waitFor}/`})`
+        : readiness === 'timeout'
+          ? `Process '${name}' started but was not ready after ${waitTimeout}ms - check read_process_output`
+          : `Process '${name}' started`;
+      
       return { 
         success: true, 
-        data: { processId, pid: child.pid, message: `Process '${name}' started` } 
+        data: { processId, pid: child.pid, ready: readiness === 'ready', message: status, recentOutput: recent.text, nextOffset: recent.nextOffset } 
       };
     } catch (error) {
       return { 
@@ -157,6 +457,63 @@ const startProcessTool: ToolDefinition = {
   }
 };
 
+// Read Process Output Tool
+const readProcessOutputTool: ToolDefinition = {
+  name: 'read_process_output',
+  description: 'Read the logs of a process started with start_process. Pass the nextOffset from the previous call as "since" to get only new output.',
+  readOnly: true,
+  parameters: [
+    {
+      name: 'processId',
+      type: 'string',
+      description: 'The process ID returned from start_process',
+      required: true
+    },
+    {
+      name: 'since',
+      type: 'integer',
+      description: 'Output offset to read from (default: the most recent output)',
+      required: false,
+      minimum: 0
+    },
+    {
+      name: 'maxChars',
+      type: 'integer',
+      description: 'Maximum characters to return',
+      required: false,
+      default: DEFAULT_READ_OUTPUT_CHARS,
+      minimum: 1
+    }
+  ],
+  execute: async (params): Promise<ToolResult> => {
+    const processId = params.processId as string;
+    const maxChars = Math.max(1, Math.floor(Number(params.maxChars) || DEFAULT_READ_OUTPUT_CHARS));
+    
+    const managed = runningProcesses.get(processId);
+    if (!managed) {
+      return { success: false, error: `Process '${processId}' not found. Use list_processes to see available processes.` };
+    }
+    
+    const since = typeof params.since === 'number'
+      ? Math.max(0, Math.floor(params.since))
+      : Math.max(0, managed.output.totalLength - maxChars);
+    const result = managed.output.read(since, maxChars);
+    
+    const status = managed.exitCode === null ? 'running' : `exited: ${managed.exitCode}`;
+    const notes = [
+      result.dropped > 0 ? `${result.dropped} older characters were discarded from the log buffer` : '',
+      result.nextOffset < managed.output.totalLength ? `more output available - call again with since=${result.nextOffset}` : ''
+    ].filter(Boolean);
+    
+    return {
+      success: true,
+      data: `[${managed.name} (${status}) | output ${result.startOffset}-${result.nextOffset} of ${managed.output.totalLength} | nextOffset=${result.nextOffset}]` +
+        (notes.length > 0 ? `\n[${notes.join('; ')}]` : '') +
+        `\n${result.text || '(no new output)'}`
+    };
+  }
+};
+
 // Stop Background Process Tool
 const stopProcessTool: ToolDefinition = {
   name: 'stop_process',
@@ -172,13 +529,13 @@ const stopProcessTool: ToolDefinition = {
   execute: async (params): Promise<ToolResult> => {
     const processId = params.processId as string;
     
-    const child = runningProcesses.get(processId);
-    if (!child) {
+    const managed = runningProcesses.get(processId);
+    if (!managed) {
       return { success: false, error: `Process '${processId}' not found` };
     }
     
     try {
-      child.kill();
+      killProcessTree(managed.child);
       runningProcesses.delete(processId);
       return { success: true, data: `Process '${processId}' stopped` };
     } catch (error) {
@@ -193,18 +550,21 @@ const stopProcessTool: ToolDefinition = {
 // List Running Processes Tool
 const listProcessesTool: ToolDefinition = {
   name: 'list_processes',
-  description: 'List all running background processes started by this session.',
+  description: 'List background processes started by this session, with their status and command.',
+  readOnly: true,
   parameters: [],
   execute: async (): Promise<ToolResult> => {
     if (runningProcesses.size === 0) {
       return { success: true, data: 'No background processes running' };
     }
     
-    const list = Array.from(runningProcesses.entries()).map(([id, child]) => 
-      `- ${id} (PID: ${child.pid})`
-    ).join('\n');
+    const list = Array.from(runningProcesses.values()).map(managed => {
+      const uptime = Math.round((Date.now() - managed.startedAt.getTime()) / 1000);
+      const status = managed.exitCode === null ? `running ${uptime}s` : `exited: ${managed.exitCode}`;
+      return `- ${managed.id} (PID: ${managed.child.pid}, ${status}, ${managed.output.totalLength} chars of output)\n  $ ${managed.command}`;
+    }).join('\n');
     
-    return { success: true, data: `Running processes:\n${list}` };
+    return { success: true, data: `Background processes:\n${list}` };
   }
 };
 
@@ -212,6 +572,7 @@ const listProcessesTool: ToolDefinition = {
 const getEnvTool: ToolDefinition = {
   name: 'get_env',
   description: 'Get the value of an environment variable.',
+  readOnly: true,
   parameters: [
     {
       name: 'name',
@@ -224,7 +585,7 @@ const getEnvTool: ToolDefinition = {
     const name = params.name as string;
     
     // Block sensitive env vars
-    const blockedVars = ['OPENROUTER_API_KEY', 'ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'PASSWORD', 'SECRET', 'TOKEN'];
+    const blockedVars = ['OPENROUTER_API_KEY', 'ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'AHURA_API_KEY', 'PASSWORD', 'SECRET', 'TOKEN'];
     if (blockedVars.some(v => name.toUpperCase().includes(v))) {
       return { success: false, error: 'Access to sensitive environment variables is blocked' };
     }
@@ -242,7 +603,11 @@ const getEnvTool: ToolDefinition = {
 export function registerTerminalTools(): void {
   toolRegistry.register(runCommandTool);
   toolRegistry.register(startProcessTool);
+  toolRegistry.register(readProcessOutputTool);
   toolRegistry.register(stopProcessTool);
   toolRegistry.register(listProcessesTool);
   toolRegistry.register(getEnvTool);
+  
+  // Don't leave dev servers running after the CLI exits
+  onShutdown(stopAllProcesses);
 }
@@ -0,0 +1,85 @@
+/**
+ * Todo Tool
+ * Lets the model keep a structured task list for the session (see utils/todoManager)
+ */
+
+import { ToolDefinition, ToolResult, toolRegistry } from './toolRegistry.js';
+import { TodoManager, TodoInput, createTodoManager } from '../utils/todoManager.js';
+
+// The list the tool writes to - the CLI swaps in a persisted one per session
+let todoManager: TodoManager = createTodoManager();
+
+/**
+ * Set the todo list the tool updates
+ */
+export function setTodoManager(manager: TodoManager): void {
+  todoManager = manager;
+}
+
+export function getTodoManager(): TodoManager {
+  return todoManager;
+}
+
+const todoWriteTool: ToolDefinition = {
+  name: 'todo_write',
+  description: `Use this tool to create and manage a structured task list for your current coding session.
+This helps you track progress, organize complex tasks, and demonstrate thoroughness to the user.
+
+When to Use This Tool:
+1. Complex multi-step tasks - When a task requires 3 or more distinct steps
+2. User explicitly requests todo list - When the user directly asks you to use the todo list
+3. User provides multiple tasks - When users provide a list of things to be done
+4. When you start working on a task - Mark it as in_progress BEFORE beginning work
+5. After completing a task - Mark it as completed immediately
+
+When NOT to Use This Tool:
+1. Single, straightforward task
+2. Trivial task that can be completed in less than 3 steps
+3. Purely conversational or informational requests
+
+Task States:
+- pending: Task not yet started
+- in_progress: Currently working on (limit to ONE task at a time)
+- completed: Task finished successfully
+
+Always send the complete list - it replaces the previous one.
+IMPORTANT: Mark todos as completed as soon as you are done with each task. Do not batch completions.`,
+  parameters: [
+    {
+      name: 'todos',
+      type: 'array',
+      description: 'The complete todo list',
+      required: true,
+      items: {
+        type: 'object',
+        properties: [
+          { name: 'id', type: 'string', description: 'Unique ID for the todo', required: false },
+          { name: 'content', type: 'string', description: 'The task description', required: true, minLength: 1 },
+          {
+            name: 'status',
+            type: 'string',
+            description: 'Task status',
+            required: true,
+            enum: ['pending', 'in_progress', 'completed']
+          }
+        ]
+      }
+    }
+  ],
+  execute: async (params): Promise<ToolResult> => {
+    const todos = params.todos as TodoInput[];
+
+    const error = todoManager.validate(todos);
+    if (error) {
+      return { success: false, error };
+    }
+
+    todoManager.setAll(todos);
+    return { success: true, data: todoManager.format() };
+  }
+};
+
+// Register todo tools
+export function registerTodoTools(): void {
+  toolRegistry.register(todoWriteTool);
+}
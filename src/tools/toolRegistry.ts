@@ -3,19 +3,81 @@
  * Defines and manages all available tools for agents
  */
 
-export interface ToolParameter {
+import { getAllowedDirectories } from '../config/index.js';
+import { validateFilePath, repairJSON, TruncatedJSONError } from '../utils/robustness.js';
+import { permissionManager } from './permissions.js';
+
+// Tool output sent back to the model is capped at this many characters
+export const MAX_TOOL_RESULT_CHARS = 8000;
+
+/**
+ * Truncate a tool result for the model, telling it how much was cut
+ */
+export function truncateToolResult(result: string, maxChars: number = MAX_TOOL_RESULT_CHARS): string {
+  if (result.length <= maxChars) return result;
+  return `${result.substring(0, maxChars)}\n\n[Output truncated: ${result.length - maxChars} more characters not shown]`;
+}
+
+/**
+ * Keep the end of long command output, where errors and summaries usually are
+ */
+export function truncateToolResultTail(result: string, maxChars: number = MAX_TOOL_RESULT_CHARS): string {
+  if (result.length <= maxChars) return result;
+  return `[Output truncated: ${result.length - maxChars} earlier characters not shown]\n\n${result.substring(result.length - maxChars)}`;
+}
+
+export type ToolParameterType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+/**
+ * JSON-schema subset describing a parameter value, including anything nested inside it
+ */
+export interface ToolSchema {
+  type: ToolParameterType;
+  description?: string;
+  enum?: string[];
+  // Value the tool uses when the argument is omitted (advertised to the model, not injected)
+  default?: unknown;
+  // number / integer bounds
+  minimum?: number;
+  maximum?: number;
+  // string length bounds
+  minLength?: number;
+  maxLength?: number;
+  // array element schema and size bounds
+  items?: ToolSchema;
+  minItems?: number;
+  maxItems?: number;
+  // object fields, declared like top-level parameters
+  properties?: ToolParameter[];
+}
+
+export interface ToolParameter extends ToolSchema {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
   description: string;
   required: boolean;
-  enum?: string[];
+  // File or directory path - checked against the workspace boundary before execute
+  isPath?: boolean;
+}
+
+// Passed to tools by the agent loop while a call runs
+export interface ToolContext {
+  // Show a progress line (e.g. the latest line of command output)
+  onProgress?: (message: string) => void;
+  // Polled by long-running tools; returning true cancels the call
+  shouldAbort?: () => boolean;
 }
 
 export interface ToolDefinition {
   name: string;
   description: string;
   parameters: ToolParameter[];
-  execute: (params: Record<string, unknown>) => Promise<ToolResult>;
+  execute: (params: Record<string, unknown>, context?: ToolContext) => Promise<ToolResult>;
+  // Paths the call will touch that aren't plain path parameters (e.g. files named in a patch)
+  getPaths?: (params: Record<string, unknown>) => string[];
+  // Changes files or runs commands - the user is asked before it executes
+  permission?: 'edit' | 'command';
+  // Only reads state, so it may run concurrently with other read-only calls
+  readOnly?: boolean;
 }
 
 export interface ToolResult {
@@ -29,6 +91,40 @@ export interface ToolCall {
   arguments: Record<string, unknown>;
 }
 
+// Reported around every registry call - 'end' carries the result
+export type ToolCallEvent =
+  | { type: 'start'; name: string; params: Record<string, unknown> }
+  | { type: 'end'; name: string; params: Record<string, unknown>; result: ToolResult; durationMs: number };
+
+// JSON-schema keywords copied as-is when set
+const SCHEMA_KEYWORDS = ['enum', 'default', 'minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems'] as const;
+
+/**
+ * Convert a parameter schema to JSON schema, recursing into array items and object properties
+ */
+function toJSONSchema(schema: ToolSchema): Record<string, unknown> {
+  const json: Record<string, unknown> = { type: schema.type };
+  if (schema.description) json.description = schema.description;
+  for (const keyword of SCHEMA_KEYWORDS) {
+    if (schema[keyword] !== undefined) json[keyword] = schema[keyword];
+  }
+  if (schema.items) json.items = toJSONSchema(schema.items);
+  if (schema.properties) Object.assign(json, toObjectSchema(schema.properties));
+  return json;
+}
+
+function toObjectSchema(params: ToolParameter[]): {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required: string[];
+} {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(params.map(param => [param.name, toJSONSchema(param)])),
+    required: params.filter(p => p.required).map(p => p.name)
+  };
+}
+
 // Convert our tool definitions to OpenAI function format
 export function toOpenAITools(tools: ToolDefinition[]): Array<{
   type: 'function';
@@ -47,25 +143,200 @@ export function toOpenAITools(tools: ToolDefinition[]): Array<{
     function: {
       name: tool.name,
       description: tool.description,
-      parameters: {
-        type: 'object' as const,
-        properties: tool.parameters.reduce((acc, param) => {
-          acc[param.name] = {
-            type: param.type,
-            description: param.description,
-            ...(param.enum ? { enum: param.enum } : {})
-          };
-          return acc;
-        }, {} as Record<string, unknown>),
-        required: tool.parameters.filter(p => p.required).map(p => p.name)
-      }
+      parameters: toObjectSchema(tool.parameters)
     }
   }));
 }
 
+// Convert our tool definitions to Anthropic tool format
+export function toAnthropicTools(tools: ToolDefinition[]): Array<{
+  name: string;
+  description: string;
+  input_schema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required: string[];
+  };
+}> {
+  return toOpenAITools(tools).map(tool => ({
+    name: tool.function.name,
+    description: tool.function.description,
+    input_schema: tool.function.parameters
+  }));
+}
+
+/**
+ * Parse tool call arguments sent as a JSON string, repairing common model mistakes.
+ * On failure the error is returned instead of thrown so it can go back to the model.
+ */
+export function parseToolArguments(raw: string): { arguments: Record<string, unknown>; error?: string } {
+  if (!raw || !raw.trim()) return { arguments: {} };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    try {
+      parsed = JSON.parse(repairJSON(raw));
+    } catch (repairError) {
+      if (repairError instanceof TruncatedJSONError) {
+        return { arguments: {}, error: `Arguments are incomplete (${repairError.message}). Send the call again in full.` };
+      }
+      const reason = error instanceof Error ? error.message : 'invalid JSON';
+      return { arguments: {}, error: `Arguments are not valid JSON (${reason})` };
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { arguments: {}, error: 'Arguments must be a JSON object' };
+  }
+  return { arguments: parsed as Record<string, unknown> };
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function matchesType(value: unknown, type: ToolParameterType): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  return describeType(value) === type;
+}
+
+/**
+ * Coerce a value to a parameter's type where the intent is unambiguous
+ * (e.g. "5" for a number, "true" for a boolean, a JSON string for an array, 3000 for a string)
+ */
+function coerceValue(value: unknown, type: ToolParameterType): unknown {
+  if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+    return String(value);
+  }
+  if (typeof value !== 'string') return value;
+
+  switch (type) {
+    case 'number':
+    case 'integer':
+      return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'array':
+    case 'object':
+      try {
+        const parsed = JSON.parse(value);
+        return describeType(parsed) === type ? parsed : value;
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Check one value against its schema, recording errors under the given label.
+ * Returns the value with coercions applied (nested values included).
+ */
+function checkValue(schema: ToolSchema, value: unknown, label: string, errors: string[]): unknown {
+  const fixed = coerceValue(value, schema.type);
+  if (!matchesType(fixed, schema.type)) {
+    errors.push(`${label}: expected ${schema.type}, got ${describeType(fixed)}`);
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.includes(fixed as string)) {
+    errors.push(`${label}: must be one of ${schema.enum.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(fixed)}`);
+  }
+
+  if (typeof fixed === 'number') {
+    if (schema.minimum !== undefined && fixed < schema.minimum) errors.push(`${label}: must be at least ${schema.minimum}, got ${fixed}`);
+    if (schema.maximum !== undefined && fixed > schema.maximum) errors.push(`${label}: must be at most ${schema.maximum}, got ${fixed}`);
+  }
+
+  if (typeof fixed === 'string') {
+    if (schema.minLength !== undefined && fixed.length < schema.minLength) errors.push(`${label}: must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && fixed.length > schema.maxLength) errors.push(`${label}: must be at most ${schema.maxLength} characters`);
+  }
+
+  if (Array.isArray(fixed)) {
+    if (schema.minItems !== undefined && fixed.length < schema.minItems) errors.push(`${label}: must have at least ${schema.minItems} item(s), got ${fixed.length}`);
+    if (schema.maxItems !== undefined && fixed.length > schema.maxItems) errors.push(`${label}: must have at most ${schema.maxItems} item(s), got ${fixed.length}`);
+    const items = schema.items;
+    return items ? fixed.map((item, i) => checkValue(items, item, `${label}[${i}]`, errors)) : fixed;
+  }
+
+  if (schema.properties && describeType(fixed) === 'object') {
+    return checkProperties(schema.properties, fixed as Record<string, unknown>, `${label}.`, errors);
+  }
+
+  return fixed;
+}
+
+/**
+ * Check an object's fields against their declarations (required, then each value's schema).
+ * Unknown fields are passed through - several tools accept aliases like file_path.
+ */
+function checkProperties(
+  params: ToolParameter[],
+  values: Record<string, unknown>,
+  prefix: string,
+  errors: string[]
+): Record<string, unknown> {
+  const coerced: Record<string, unknown> = { ...values };
+
+  for (const param of params) {
+    const value = coerced[param.name];
+
+    if (value === undefined || value === null) {
+      if (param.required) errors.push(`${prefix}${param.name}: required parameter is missing`);
+      delete coerced[param.name];
+      continue;
+    }
+
+    coerced[param.name] = checkValue(param, value, `${prefix}${param.name}`, errors);
+  }
+
+  return coerced;
+}
+
+/**
+ * Check call arguments against a tool's parameters (required, types, enums, bounds, nested fields).
+ * Returns the arguments with safe coercions applied, plus any errors.
+ */
+export function validateToolArguments(
+  tool: ToolDefinition,
+  params: Record<string, unknown>
+): { params: Record<string, unknown>; errors: string[] } {
+  const errors: string[] = [];
+  const coerced = checkProperties(tool.parameters, params, '', errors);
+  return { params: coerced, errors };
+}
+
+/**
+ * Short type description for error messages, e.g. "array of object" or "string: a | b"
+ */
+function describeSchema(schema: ToolSchema): string {
+  if (schema.items) return `${schema.type} of ${describeSchema(schema.items)}`;
+  if (schema.properties) return `{ ${schema.properties.map(p => `${p.name}${p.required ? '' : '?'}`).join(', ')} }`;
+  return schema.enum ? `${schema.type}: ${schema.enum.join(' | ')}` : schema.type;
+}
+
+/**
+ * Error text for invalid arguments - lists each problem and the expected parameters so the model can retry
+ */
+export function formatArgumentErrors(tool: ToolDefinition, errors: string[]): string {
+  const expected = tool.parameters
+    .map(p => `${p.name} (${describeSchema(p)}${p.required ? ', required' : ''})`)
+    .join(', ');
+  return `Invalid arguments for ${tool.name}:\n${errors.map(e => `- ${e}`).join('\n')}\nExpected parameters: ${expected || 'none'}`;
+}
+
 // Tool Registry - singleton to manage all tools
 class ToolRegistry {
   private tools: Map<string, ToolDefinition> = new Map();
+  private workspaceRoot: string = process.cwd();
+  private allowedDirectories: string[] = getAllowedDirectories();
+  private abortCheck: (() => boolean) | null = null;
+  private callListener: ((event: ToolCallEvent) => void) | null = null;
 
   register(tool: ToolDefinition): void {
     this.tools.set(tool.name, tool);
@@ -79,14 +350,123 @@ class ToolRegistry {
     return Array.from(this.tools.values());
   }
 
-  async execute(name: string, params: Record<string, unknown>): Promise<ToolResult> {
+  /**
+   * Set the project directory tool paths are confined to
+   */
+  setWorkspaceRoot(root: string): void {
+    this.workspaceRoot = root;
+  }
+
+  getWorkspaceRoot(): string {
+    return this.workspaceRoot;
+  }
+
+  /**
+   * Set extra directories tools may access outside the workspace
+   */
+  setAllowedDirectories(dirs: string[]): void {
+    this.allowedDirectories = dirs;
+  }
+
+  getAllowedDirectories(): string[] {
+    return [...this.allowedDirectories];
+  }
+
+  /**
+   * Set the cancellation check used when a call doesn't pass its own (e.g. the CLI's Ctrl+C flag)
+   */
+  setAbortCheck(check: (() => boolean) | null): void {
+    this.abortCheck = check;
+  }
+
+  /**
+   * Whether the user asked to cancel (agents also use this to stop model streaming)
+   */
+  isAborted(): boolean {
+    return this.abortCheck ? this.abortCheck() : false;
+  }
+
+  /**
+   * Observe every tool call and its result (e.g. headless mode's stream-json events)
+   */
+  setCallListener(listener: ((event: ToolCallEvent) => void) | null): void {
+    this.callListener = listener;
+  }
+
+  /**
+   * Collect every path a tool call would touch
+   */
+  private getCallPaths(tool: ToolDefinition, params: Record<string, unknown>): string[] {
+    const paths = tool.parameters
+      .filter(p => p.isPath && typeof params[p.name] === 'string' && params[p.name] !== '')
+      .map(p => params[p.name] as string);
+
+    if (tool.getPaths) {
+      try {
+        paths.push(...tool.getPaths(params));
+      } catch {
+        // Malformed input - let the tool report it
+      }
+    }
+
+    return paths;
+  }
+
+  /**
+   * Check paths against the workspace boundary
+   */
+  private checkPaths(paths: string[]): string | null {
+    for (const filePath of paths) {
+      const result = validateFilePath(filePath, {
+        workspaceRoot: this.workspaceRoot,
+        allowedDirectories: this.allowedDirectories
+      });
+      if (!result.valid) return result.error || `Access denied: ${filePath}`;
+    }
+
+    return null;
+  }
+
+  async execute(name: string, params: Record<string, unknown>, context: ToolContext = {}): Promise<ToolResult> {
+    const listener = this.callListener;
+    if (!listener) return this.run(name, params, context);
+
+    const startTime = Date.now();
+    listener({ type: 'start', name, params });
+    const result = await this.run(name, params, context);
+    listener({ type: 'end', name, params, result, durationMs: Date.now() - startTime });
+    return result;
+  }
+
+  private async run(name: string, params: Record<string, unknown>, context: ToolContext): Promise<ToolResult> {
     const tool = this.tools.get(name);
     if (!tool) {
-      return { success: false, error: `Tool '${name}' not found` };
+      return { success: false, error: `Tool '${name}' not found. Available tools: ${this.getAll().map(t => t.name).join(', ')}` };
+    }
+    
+    const validation = validateToolArguments(tool, params);
+    if (validation.errors.length > 0) {
+      return { success: false, error: formatArgumentErrors(tool, validation.errors) };
+    }
+    params = validation.params;
+    
+    const paths = this.getCallPaths(tool, params);
+    const pathError = this.checkPaths(paths);
+    if (pathError) {
+      return { success: false, error: pathError };
+    }
+    
+    const permission = await permissionManager.check(tool, params, this.workspaceRoot, paths);
+    if (!permission.allowed) {
+      return { success: false, error: permission.reason };
     }
     
     try {
-      return await tool.execute(params);
+      const abortCheck = this.abortCheck;
+      return await tool.execute(params, {
+        ...context,
+        shouldAbort: context.shouldAbort || (abortCheck ? () => abortCheck() : undefined)
+      });
     } catch (error) {
       return { 
         success: false, 
@@ -9,6 +9,7 @@ import { ToolDefinition, ToolResult, toolRegistry } from './toolRegistry.js';
 const webSearchTool: ToolDefinition = {
   name: 'web_search',
   description: 'Search the internet for information. Returns search results with titles, URLs, and snippets.',
+  readOnly: true,
   parameters: [
     {
       name: 'query',
@@ -18,9 +19,11 @@ const webSearchTool: ToolDefinition = {
     },
     {
       name: 'maxResults',
-      type: 'number',
-      description: 'Maximum number of results to return (default: 5)',
-      required: false
+      type: 'integer',
+      description: 'Maximum number of results to return',
+      required: false,
+      default: 5,
+      minimum: 1
     }
   ],
   execute: async (params): Promise<ToolResult> => {
@@ -95,6 +98,7 @@ const webSearchTool: ToolDefinition = {
 const fetchUrlTool: ToolDefinition = {
   name: 'fetch_url',
   description: 'Fetch and read the content of a webpage. Returns the text content (HTML stripped).',
+  readOnly: true,
   parameters: [
     {
       name: 'url',
@@ -104,9 +108,11 @@ const fetchUrlTool: ToolDefinition = {
     },
     {
       name: 'maxLength',
-      type: 'number',
-      description: 'Maximum content length to return (default: 5000)',
-      required: false
+      type: 'integer',
+      description: 'Maximum content length to return',
+      required: false,
+      default: 5000,
+      minimum: 1
     }
   ],
   execute: async (params): Promise<ToolResult> => {
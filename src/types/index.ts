@@ -20,6 +20,17 @@ export interface AgentConfig {
   systemPrompt: string;
   maxTokens: number;
   temperature: number;
+  // Overrides for the tool-calling loop limits (defaults come from the environment)
+  toolBudget?: Partial<ToolBudget>;
+}
+
+/**
+ * Limits for one tool-calling loop. Tokens and time are unlimited when unset.
+ */
+export interface ToolBudget {
+  maxIterations: number;    // Rounds of tool calls
+  maxTokens?: number;       // Total tokens across all rounds
+  maxDurationMs?: number;   // Wall-clock time
 }
 
 export interface AgentMessage {
@@ -38,6 +49,8 @@ export interface AgentResponse {
   duration?: number;
   error?: string;
   toolsUsed?: string[];
+  // Set when the tool loop hit its budget before finishing (e.g. "25 tool rounds")
+  budgetExhausted?: string;
 }
 
 // ============ Task & Project Types ============
@@ -275,6 +288,10 @@ export interface CLIOptions {
   verbose?: boolean;
   dryRun?: boolean;
   interactive?: boolean;
+  // Headless only: permission mode for the run (see PERMISSION_MODES)
+  permissionMode?: string;
+  // Resume the most recent session of the working folder
+  continueSession?: boolean;
 }
 
 export interface ProjectInput {
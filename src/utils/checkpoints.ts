@@ -0,0 +1,233 @@
+/**
+ * Checkpoint Store
+ * Before a file is written or deleted, its original content is saved to
+ * <project>/.ahura/checkpoints/. Changes are grouped into one checkpoint per user turn,
+ * so a whole request can be diffed or undone - with or without git, and without
+ * adding commits to the user's history.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createFileDiff } from './fileDiff.js';
+import { logger } from './logger.js';
+
+// Oldest checkpoints are pruned beyond this
+const MAX_CHECKPOINTS = 50;
+
+export interface CheckpointFile {
+  // Relative to the project, forward slashes
+  path: string;
+  // Base64 of the bytes before the turn first changed it (null = didn't exist)
+  original: string | null;
+}
+
+export interface Checkpoint {
+  id: number;
+  prompt: string;
+  createdAt: Date;
+  files: CheckpointFile[];
+}
+
+export interface RestoreResult {
+  restored: string[];
+  // Checkpoint holding the contents from before the restore, so it can be undone too
+  undoId: number | null;
+}
+
+export class CheckpointStore {
+  private dir: string;
+  // Checkpoint of the running turn - written once it has a file
+  private current: Checkpoint | null = null;
+
+  constructor(private projectRoot: string) {
+    this.dir = path.join(projectRoot, '.ahura', 'checkpoints');
+  }
+
+  /**
+   * Start the checkpoint for a new user turn
+   */
+  begin(prompt: string): void {
+    this.current = { id: 0, prompt, createdAt: new Date(), files: [] };
+  }
+
+  /**
+   * Close the running checkpoint - later changes start a new one
+   */
+  end(): void {
+    this.current = null;
+  }
+
+  /**
+   * Checkpoint of the running turn, once it has changed a file
+   */
+  getCurrent(): Checkpoint | null {
+    return this.current && this.current.id !== 0 ? this.current : null;
+  }
+
+  /**
+   * Save a file's content before the current turn changes it (first change only)
+   */
+  recordChange(fullPath: string): void {
+    const relative = path.relative(this.projectRoot, fullPath);
+    // Outside the project, or the store itself
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return;
+    if (path.resolve(fullPath).startsWith(this.dir + path.sep)) return;
+
+    if (!this.current) this.begin('');
+    const checkpoint = this.current!;
+    const key = relative.split(path.sep).join('/');
+    if (checkpoint.files.some(file => file.path === key)) return;
+
+    let original: string | null = null;
+    try {
+      if (fs.existsSync(fullPath) && !fs.statSync(fullPath).isDirectory()) {
+        original = fs.readFileSync(fullPath).toString('base64');
+      }
+    } catch (error) {
+      logger.debug(`Could not read ${fullPath} for checkpoint: ${error}`);
+    }
+
+    if (checkpoint.id === 0) checkpoint.id = this.nextId();
+    checkpoint.files.push({ path: key, original });
+    this.save(checkpoint);
+  }
+
+  /**
+   * Saved checkpoints, newest first
+   */
+  list(): Checkpoint[] {
+    return this.listIds()
+      .map(id => this.get(id))
+      .filter((checkpoint): checkpoint is Checkpoint => checkpoint !== null);
+  }
+
+  get(id: number): Checkpoint | null {
+    const file = path.join(this.dir, `${id}.json`);
+    if (!fs.existsSync(file)) return null;
+
+    try {
+      const saved = JSON.parse(fs.readFileSync(file, 'utf-8')) as Checkpoint;
+      return { ...saved, createdAt: new Date(saved.createdAt) };
+    } catch (error) {
+      logger.debug(`Could not read checkpoint ${id}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Diff from the contents saved in a checkpoint to what is on disk now
+   */
+  diff(id: number): string | null {
+    const checkpoint = this.get(id);
+    if (!checkpoint) return null;
+
+    return checkpoint.files
+      .map(file => {
+        const original = decodeOriginal(file.original);
+        const current = this.readCurrent(file.path);
+        return sameContent(original, current) ? '' : createFileDiff(file.path, original, current);
+      })
+      .join('');
+  }
+
+  /**
+   * Put files back as they were before a checkpoint, undoing it and every later one.
+   * The restore gets its own checkpoint, so it can be undone the same way.
+   */
+  restore(id: number): RestoreResult | null {
+    const checkpoints = this.listIds()
+      .filter(checkpointId => checkpointId >= id)
+      .reverse()
+      .map(checkpointId => this.get(checkpointId))
+      .filter((checkpoint): checkpoint is Checkpoint => checkpoint !== null);
+    if (checkpoints.length === 0 || checkpoints[0].id !== id) return null;
+
+    // Oldest saved content wins - that is the state before checkpoint id
+    const targets = new Map<string, Buffer | null>();
+    for (const checkpoint of checkpoints) {
+      for (const file of checkpoint.files) {
+        if (!targets.has(file.path)) targets.set(file.path, decodeOriginal(file.original));
+      }
+    }
+
+    this.begin(`/restore ${id}`);
+    const restored: string[] = [];
+    for (const [relative, original] of targets) {
+      const fullPath = path.join(this.projectRoot, relative);
+      if (sameContent(this.readCurrent(relative), original)) continue;
+
+      this.recordChange(fullPath);
+      if (original === null) {
+        fs.unlinkSync(fullPath);
+      } else {
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, original);
+      }
+      restored.push(relative);
+    }
+
+    const undoId = this.getCurrent()?.id ?? null;
+    this.end();
+    return { restored, undoId };
+  }
+
+  private readCurrent(relative: string): Buffer | null {
+    const fullPath = path.join(this.projectRoot, relative);
+    try {
+      return fs.existsSync(fullPath) && !fs.statSync(fullPath).isDirectory()
+        ? fs.readFileSync(fullPath)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Saved checkpoint ids, newest first - from the file names, without reading the files
+   */
+  private listIds(): number[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    return fs.readdirSync(this.dir)
+      .filter(name => /^\d+\.json$/.test(name))
+      .map(name => parseInt(name, 10))
+      .sort((a, b) => b - a);
+  }
+
+  private nextId(): number {
+    const [latest] = this.listIds();
+    return latest !== undefined ? latest + 1 : 1;
+  }
+
+  private save(checkpoint: Checkpoint): void {
+    try {
+      if (!fs.existsSync(this.dir)) {
+        fs.mkdirSync(this.dir, { recursive: true });
+        // Keep checkpoints out of the user's repository
+        fs.writeFileSync(path.join(this.dir, '.gitignore'), '*\n', 'utf-8');
+      }
+      fs.writeFileSync(path.join(this.dir, `${checkpoint.id}.json`), JSON.stringify(checkpoint, null, 2), 'utf-8');
+      this.prune();
+    } catch (error) {
+      logger.debug(`Could not save checkpoint ${checkpoint.id}: ${error}`);
+    }
+  }
+
+  private prune(): void {
+    this.listIds().slice(MAX_CHECKPOINTS).forEach(id => {
+      fs.unlinkSync(path.join(this.dir, `${id}.json`));
+    });
+  }
+}
+
+function decodeOriginal(original: string | null): Buffer | null {
+  return original === null ? null : Buffer.from(original, 'base64');
+}
+
+function sameContent(a: Buffer | null, b: Buffer | null): boolean {
+  return a === null || b === null ? a === b : a.equals(b);
+}
+
+export function createCheckpointStore(projectRoot: string): CheckpointStore {
+  return new CheckpointStore(projectRoot);
+}
@@ -5,7 +5,9 @@
  * to prevent context overflow while preserving important information.
  */
 
-import OpenAI from 'openai';
+import { providerRegistry } from '../providers/registry.js';
+import { LLMProvider } from '../providers/types.js';
+import { getSummarizationModel } from '../context/modelConfigs.js';
 
 export interface ConversationMessage {
   role: 'user' | 'assistant' | 'system';
@@ -20,6 +22,11 @@ export interface ContextWindow {
   totalTokens: number;
 }
 
+export interface SummarizerState {
+  messages: ConversationMessage[];
+  summary: string | null;
+}
+
 // Rough token estimation (4 chars ≈ 1 token)
 function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4);
@@ -34,7 +41,7 @@ export class ContextSummarizer {
   private maxRecentMessages: number;
   private maxTokens: number;
   private summarizeThreshold: number;
-  private openrouter: OpenAI | null = null;
+  private provider: LLMProvider | null = null;
   
   constructor(options: {
     maxRecentMessages?: number;
@@ -45,16 +52,11 @@ export class ContextSummarizer {
     this.maxTokens = options.maxTokens || 8000;
     this.summarizeThreshold = options.summarizeThreshold || 6000;
     
-    // Initialize API client for summarization
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (apiKey) {
-      this.openrouter = new OpenAI({
-        baseURL: 'https://openrouter.ai/api/v1',
-        apiKey,
-        defaultHeaders: {
-          'HTTP-Referer': 'https://github.com/ahurasense',
-        }
-      });
+    // Provider for summarization - none configured means older messages are just dropped
+    try {
+      this.provider = providerRegistry.createDefault();
+    } catch {
+      this.provider = null;
     }
   }
   
@@ -154,7 +156,7 @@ export class ContextSummarizer {
    * Summarize a batch of messages using fast model
    */
   private async summarizeMessages(messages: ConversationMessage[]): Promise<string | null> {
-    if (!this.openrouter) return null;
+    if (!this.provider) return null;
     
     const conversation = messages.map(m => {
       const role = m.role === 'user' ? 'User' : 'Assistant';
@@ -162,28 +164,35 @@ export class ContextSummarizer {
     }).join('\n');
     
     try {
-      const response = await this.openrouter.chat.completions.create({
-        model: 'anthropic/claude-haiku-4.5', // Fast & cheap
-        max_tokens: 300,
+      const response = await this.provider.chat({
+        model: getSummarizationModel(), // Fast & cheap
+        maxTokens: 300,
         temperature: 0,
-        messages: [
-          {
-            role: 'system',
-            content: 'Summarize this conversation in 2-3 sentences, focusing on: 1) What the user wanted to build/do, 2) What was created/modified, 3) Any important decisions or constraints. Be concise.'
-          },
-          {
-            role: 'user',
-            content: conversation
-          }
-        ]
+        system: 'Summarize this conversation in 2-3 sentences, focusing on: 1) What the user wanted to build/do, 2) What was created/modified, 3) Any important decisions or constraints. Be concise.',
+        messages: [{ role: 'user', content: conversation }]
       });
       
-      return response.choices?.[0]?.message?.content || null;
+      return response.content || null;
     } catch {
       return null;
     }
   }
   
+  /**
+   * Messages and summary, for saving the session
+   */
+  exportState(): SummarizerState {
+    return { messages: [...this.messages], summary: this.summary };
+  }
+  
+  /**
+   * Restore saved messages and summary
+   */
+  restoreState(state: SummarizerState): void {
+    this.messages = state.messages.map(m => ({ ...m, timestamp: new Date(m.timestamp) }));
+    this.summary = state.summary;
+  }
+  
   /**
    * Clear all history
    */
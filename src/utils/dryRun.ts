@@ -0,0 +1,245 @@
+/**
+ * Dry Run Overlay
+ * In dry-run mode file writes and commands are staged in memory instead of touching disk.
+ * Reads go through the overlay so later steps see the proposed contents; at the end the
+ * staged changes are shown as a unified diff plus the list of commands that were skipped.
+ *
+ * When dry-run is off every method passes straight through to the real filesystem,
+ * so callers can use the overlay unconditionally. That also makes it the one place
+ * file changes go through, which change listeners (e.g. turn history) hook into.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createFileDiff } from './fileDiff.js';
+import { walkFiles, FileSource, WalkOptions, WalkedFile } from './fileMatcher.js';
+
+export interface DryRunCommand {
+  command: string;
+  cwd: string;
+}
+
+class DryRunOverlay implements FileSource {
+  private enabled = false;
+  // Proposed content by absolute path (null = deleted)
+  private files: Map<string, string | null> = new Map();
+  // When each path was last staged, reported as its modification time
+  private stagedAt: Map<string, number> = new Map();
+  // Disk bytes when the path was first staged (null = didn't exist)
+  private originals: Map<string, Buffer | null> = new Map();
+  private commands: DryRunCommand[] = [];
+  private changeListeners: Array<(fullPath: string) => void> = [];
+
+  enable(): void {
+    this.enabled = true;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Be told before a file on disk is written or deleted (not called for staged changes)
+   */
+  addChangeListener(listener: (fullPath: string) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Whether a path exists, counting staged files (and their parent folders) and deletions
+   */
+  exists(fullPath: string): boolean {
+    const key = path.resolve(fullPath);
+    if (this.enabled) {
+      if (this.files.has(key)) return this.files.get(key) !== null;
+      if (this.hasStagedFilesUnder(key)) return true;
+    }
+    return fs.existsSync(key);
+  }
+
+  isDirectory(fullPath: string): boolean {
+    const key = path.resolve(fullPath);
+    if (this.enabled) {
+      if (this.files.has(key)) return false;
+      if (this.hasStagedFilesUnder(key)) return true;
+    }
+    return fs.statSync(key).isDirectory();
+  }
+
+  readFile(fullPath: string): Buffer {
+    const key = path.resolve(fullPath);
+    if (this.enabled && this.files.has(key)) {
+      const content = this.files.get(key);
+      if (content === null || content === undefined) {
+        throw new Error(`ENOENT: no such file or directory (deleted in dry run), open '${fullPath}'`);
+      }
+      return Buffer.from(content, 'utf-8');
+    }
+    return fs.readFileSync(key);
+  }
+
+  readText(fullPath: string): string {
+    return this.readFile(fullPath).toString('utf-8');
+  }
+
+  async readFileAsync(fullPath: string): Promise<Buffer> {
+    const key = path.resolve(fullPath);
+    return this.enabled && this.files.has(key) ? this.readFile(key) : fs.promises.readFile(key);
+  }
+
+  async stat(fullPath: string): Promise<{ size: number; mtimeMs: number }> {
+    const key = path.resolve(fullPath);
+    if (this.enabled && this.files.has(key)) {
+      const content = this.readFile(key);
+      return { size: content.length, mtimeMs: this.stagedAt.get(key) ?? Date.now() };
+    }
+    return fs.promises.stat(key);
+  }
+
+  /**
+   * walkFiles with staged files added and staged deletions removed.
+   * Staged files that aren't on disk are added without applying ignore rules.
+   */
+  async *walkFiles(rootDir: string, options: WalkOptions = {}): AsyncGenerator<WalkedFile> {
+    const root = path.resolve(rootDir);
+    for await (const file of walkFiles(root, options)) {
+      if (this.enabled && this.files.get(path.resolve(file.fullPath)) === null) continue;
+      yield file;
+    }
+    if (!this.enabled) return;
+
+    for (const [file, content] of this.files) {
+      if (content === null || fs.existsSync(file)) continue;
+      const relative = path.relative(root, file);
+      if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+      yield { path: relative.split(path.sep).join('/'), fullPath: file };
+    }
+  }
+
+  /**
+   * Directory entries with staged files added and staged deletions removed
+   */
+  readdir(dirPath: string): string[] {
+    const dir = path.resolve(dirPath);
+    const entries = new Set(fs.existsSync(dir) ? fs.readdirSync(dir) : []);
+    if (!this.enabled) return Array.from(entries);
+
+    for (const [file, content] of this.files) {
+      const relative = path.relative(dir, file);
+      if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+
+      const name = relative.split(path.sep)[0];
+      if (content !== null) {
+        entries.add(name);
+      } else if (name === relative) {
+        entries.delete(name);
+      }
+    }
+    return Array.from(entries).sort();
+  }
+
+  /**
+   * Write a file, creating parent folders (staged in dry-run mode)
+   */
+  writeFile(fullPath: string, content: string): void {
+    const key = path.resolve(fullPath);
+    if (!this.enabled) {
+      this.changeListeners.forEach(listener => listener(key));
+      fs.mkdirSync(path.dirname(key), { recursive: true });
+      fs.writeFileSync(key, content, 'utf-8');
+      return;
+    }
+    this.rememberOriginal(key);
+    this.files.set(key, content);
+    this.stagedAt.set(key, Date.now());
+  }
+
+  /**
+   * Delete a file or empty folder (staged in dry-run mode)
+   */
+  deleteFile(fullPath: string): void {
+    const key = path.resolve(fullPath);
+    if (!this.enabled) {
+      this.changeListeners.forEach(listener => listener(key));
+      if (fs.statSync(key).isDirectory()) {
+        fs.rmdirSync(key);
+      } else {
+        fs.unlinkSync(key);
+      }
+      return;
+    }
+    this.rememberOriginal(key);
+    this.files.set(key, null);
+    this.stagedAt.set(key, Date.now());
+  }
+
+  /**
+   * Record a command that would have run
+   */
+  recordCommand(command: string, cwd: string): void {
+    this.commands.push({ command, cwd });
+  }
+
+  getCommands(): DryRunCommand[] {
+    return [...this.commands];
+  }
+
+  /**
+   * Paths whose proposed content differs from disk, sorted
+   */
+  getChangedPaths(): string[] {
+    return Array.from(this.files.keys())
+      .filter(file => {
+        const content = this.files.get(file) ?? null;
+        const original = this.originals.get(file) ?? null;
+        if (content === null || original === null) return content !== original;
+        return !original.equals(Buffer.from(content, 'utf-8'));
+      })
+      .sort();
+  }
+
+  hasChanges(): boolean {
+    return this.getChangedPaths().length > 0 || this.commands.length > 0;
+  }
+
+  /**
+   * Unified diff of every staged change, with paths relative to root (applies with git apply or patch -p1)
+   */
+  createPatch(root: string): string {
+    return this.getChangedPaths().map(file => createFileDiff(
+      path.relative(root, file).split(path.sep).join('/'),
+      this.originals.get(file) ?? null,
+      this.files.get(file) ?? null
+    )).join('');
+  }
+
+  /**
+   * Patch file contents: skipped commands as a comment header, then the diff.
+   * git apply and patch both ignore the leading comment lines.
+   */
+  createPatchFile(root: string): string {
+    const header = this.commands.length > 0
+      ? `# Commands not run (dry run):\n${this.commands.map(c => `#   $ ${c.command}`).join('\n')}\n\n`
+      : '';
+    return header + this.createPatch(root);
+  }
+
+  private rememberOriginal(key: string): void {
+    if (this.originals.has(key)) return;
+    try {
+      this.originals.set(key, fs.statSync(key).isDirectory() ? null : fs.readFileSync(key));
+    } catch {
+      this.originals.set(key, null);
+    }
+  }
+
+  private hasStagedFilesUnder(dir: string): boolean {
+    const prefix = dir.endsWith(path.sep) ? dir : dir + path.sep;
+    for (const [file, content] of this.files) {
+      if (content !== null && file.startsWith(prefix)) return true;
+    }
+    return false;
+  }
+}
+
+export const dryRunOverlay = new DryRunOverlay();
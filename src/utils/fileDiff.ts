@@ -0,0 +1,44 @@
+/**
+ * File Diffs
+ * git-style unified diffs between two versions of a file (applies with git apply or patch -p1)
+ */
+
+import { createTwoFilesPatch } from 'diff';
+
+/**
+ * Diff one file. null means the file doesn't exist on that side; relativePath uses forward slashes.
+ * Content that isn't text (NUL bytes, or not valid UTF-8) gets a "Binary files differ" line instead of hunks.
+ */
+export function createFileDiff(relativePath: string, before: string | Buffer | null, after: string | Buffer | null): string {
+  const oldName = before === null ? '/dev/null' : `a/${relativePath}`;
+  const newName = after === null ? '/dev/null' : `b/${relativePath}`;
+  // git apply needs the mode line to accept /dev/null on one side
+  const mode = before === null ? 'new file mode 100644\n' : after === null ? 'deleted file mode 100644\n' : '';
+  const header = `diff --git a/${relativePath} b/${relativePath}\n${mode}`;
+  if (isBinary(before) || isBinary(after)) {
+    return `${header}Binary files ${oldName} and ${newName} differ\n`;
+  }
+
+  const patch = createTwoFilesPatch(
+    oldName,
+    newName,
+    before?.toString() ?? '',
+    after?.toString() ?? '',
+    '',
+    '',
+    { context: 3 }
+  );
+  // Drop the "Index:"/"===" header and the tab createTwoFilesPatch leaves after empty headers
+  const body = patch
+    .split('\n')
+    .filter(line => !line.startsWith('Index:') && !line.startsWith('===='))
+    .map(line => (line.startsWith('---') || line.startsWith('+++')) ? line.trimEnd() : line)
+    .join('\n');
+  return `${header}${body.trim()}\n`;
+}
+
+function isBinary(content: string | Buffer | null): boolean {
+  if (!Buffer.isBuffer(content)) return false;
+  // Decoding must give the same bytes back, or the diff would not reproduce the file
+  return content.includes(0) || !Buffer.from(content.toString('utf-8'), 'utf-8').equals(content);
+}
@@ -0,0 +1,288 @@
+/**
+ * File Matcher
+ * Glob matching and .gitignore-aware directory walking
+ *
+ * Shared by the glob_files / search_in_files tools and FileSystemManager:
+ * - Glob patterns with **, *, ?, {a,b} and [abc]
+ * - .gitignore and .ahuraignore files (nested, with negation)
+ * - Async, streaming walk so callers can stop early
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Files whose rules are applied while walking
+const IGNORE_FILES = ['.gitignore', '.ahuraignore'];
+
+// Directories that are never walked, ignore files or not
+const ALWAYS_SKIP_DIRS = new Set(['.git', 'node_modules']);
+
+interface IgnoreRule {
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+export interface WalkOptions {
+  // Directory ignore rules are resolved against (default: the walk root)
+  projectRoot?: string;
+  // Apply .gitignore/.ahuraignore rules (default: true)
+  respectIgnoreFiles?: boolean;
+}
+
+export interface WalkedFile {
+  // Path relative to the walk root, always with forward slashes
+  path: string;
+  fullPath: string;
+}
+
+/**
+ * Where globFiles looks for files - the disk, or a view over it such as the dry-run overlay
+ */
+export interface FileSource {
+  walkFiles(rootDir: string, options?: WalkOptions): AsyncGenerator<WalkedFile>;
+  stat(fullPath: string): Promise<{ mtimeMs: number }>;
+}
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let regex = '';
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more whole directories
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        if (atSegmentStart && glob[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      regex += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      regex += ')';
+    } else if (char === ',' && inGroup) {
+      regex += '|';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        regex += '\\[';
+      } else {
+        let cls = glob.slice(i + 1, close);
+        if (cls.startsWith('!')) cls = '^' + cls.slice(1);
+        regex += `[${cls.replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else if ('.+^$()|\\'.includes(char)) {
+      regex += '\\' + char;
+    } else {
+      regex += char;
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Test a relative path (forward slashes) against a glob pattern
+ */
+export function matchesGlob(relPath: string, pattern: string): boolean {
+  return globToRegExp(pattern.replace(/^\.\//, '')).test(relPath);
+}
+
+/**
+ * Split a comma-separated list of globs, keeping commas inside {a,b} groups.
+ * Arrays are accepted as-is.
+ */
+export function splitGlobList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(v => String(v).trim()).filter(Boolean);
+  }
+  if (typeof value !== 'string') return [];
+
+  const globs: string[] = [];
+  let current = '';
+  let depth = 0;
+  for (const char of value) {
+    if (char === '{') depth++;
+    if (char === '}') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      globs.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  globs.push(current);
+
+  return globs.map(g => g.trim()).filter(Boolean);
+}
+
+/**
+ * Parse the contents of a .gitignore-style file
+ */
+function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // Patterns containing a slash are relative to the ignore file's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+    const pattern = anchored ? line : `**/${line}`;
+
+    rules.push({ base, regex: globToRegExp(pattern), negate, dirOnly });
+  }
+
+  return rules;
+}
+
+function loadIgnoreRules(dir: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const fileName of IGNORE_FILES) {
+    try {
+      rules.push(...parseIgnoreFile(fs.readFileSync(path.join(dir, fileName), 'utf-8'), base));
+    } catch {
+      // No ignore file here
+    }
+  }
+  return rules;
+}
+
+/**
+ * Check a project-relative path against ignore rules (last matching rule wins)
+ */
+function isIgnored(relPath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+
+    let subject = relPath;
+    if (rule.base) {
+      if (!relPath.startsWith(rule.base + '/')) continue;
+      subject = relPath.slice(rule.base.length + 1);
+    }
+
+    if (rule.regex.test(subject)) {
+      ignored = !rule.negate;
+    }
+  }
+
+  return ignored;
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
+
+/**
+ * Walk all files under rootDir, skipping ignored paths.
+ * Yields files as they are found so callers can stop at a limit.
+ */
+export async function* walkFiles(rootDir: string, options: WalkOptions = {}): AsyncGenerator<WalkedFile> {
+  const root = path.resolve(rootDir);
+  const projectRoot = path.resolve(options.projectRoot || root);
+  const respectIgnoreFiles = options.respectIgnoreFiles !== false;
+
+  // Rules from the project root down to the walk root also apply
+  let inheritedRules: IgnoreRule[] = [];
+  if (respectIgnoreFiles) {
+    const relRoot = path.relative(projectRoot, root);
+    if (!relRoot.startsWith('..') && !path.isAbsolute(relRoot)) {
+      const segments = relRoot ? toPosix(relRoot).split('/') : [];
+      for (let i = 0; i < segments.length; i++) {
+        const base = segments.slice(0, i).join('/');
+        inheritedRules.push(...loadIgnoreRules(path.join(projectRoot, base), base));
+      }
+    }
+  }
+
+  const rootBase = toPosix(path.relative(projectRoot, root));
+  const projectRelative = (fullPath: string) => toPosix(path.relative(projectRoot, fullPath));
+
+  async function* walk(dir: string, rules: IgnoreRule[]): AsyncGenerator<WalkedFile> {
+    const dirRules = respectIgnoreFiles
+      ? [...rules, ...loadIgnoreRules(dir, dir === root ? rootBase : projectRelative(dir))]
+      : rules;
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const isDirectory = entry.isDirectory();
+
+      if (isDirectory && ALWAYS_SKIP_DIRS.has(entry.name)) continue;
+      if (entry.isSymbolicLink()) continue;
+      if (dirRules.length > 0 && isIgnored(projectRelative(fullPath), isDirectory, dirRules)) continue;
+
+      if (isDirectory) {
+        yield* walk(fullPath, dirRules);
+      } else if (entry.isFile()) {
+        yield { path: toPosix(path.relative(root, fullPath)), fullPath };
+      }
+    }
+  }
+
+  yield* walk(root, inheritedRules);
+}
+
+/**
+ * Find files under rootDir matching a glob pattern, newest first
+ */
+export async function globFiles(
+  rootDir: string,
+  pattern: string,
+  options: WalkOptions = {},
+  source: FileSource = diskSource
+): Promise<Array<{ path: string; fullPath: string; mtimeMs: number }>> {
+  const regex = globToRegExp(pattern.replace(/^\.\//, ''));
+  const matches: Array<{ path: string; fullPath: string; mtimeMs: number }> = [];
+
+  for await (const file of source.walkFiles(rootDir, options)) {
+    if (!regex.test(file.path)) continue;
+    try {
+      const stat = await source.stat(file.fullPath);
+      matches.push({ ...file, mtimeMs: stat.mtimeMs });
+    } catch {
+      // File disappeared mid-walk
+    }
+  }
+
+  return matches.sort((a, b) => b.mtimeMs - a.mtimeMs);
+}
+
+const diskSource: FileSource = {
+  walkFiles,
+  stat: fullPath => fs.promises.stat(fullPath)
+};
@@ -5,9 +5,10 @@
 
 import fs from 'fs-extra';
 import path from 'path';
-import { glob } from 'glob';
 import { FileOperation, FileTreeNode, FileSystemState } from '../types/index.js';
 import { logger } from './logger.js';
+import { globFiles } from './fileMatcher.js';
+import { dryRunOverlay } from './dryRun.js';
 
 export class FileSystemManager {
   private rootDir: string;
@@ -30,7 +31,9 @@ export class FileSystemManager {
    * Initialize the output directory
    */
   async initialize(): Promise<void> {
-    await fs.ensureDir(this.rootDir);
+    if (!dryRunOverlay.isEnabled()) {
+      await fs.ensureDir(this.rootDir);
+    }
     logger.info(`Initialized output directory: ${this.rootDir}`);
   }
 
@@ -39,7 +42,10 @@ export class FileSystemManager {
    */
   async createDirectory(dirPath: string): Promise<void> {
     const fullPath = this.resolvePath(dirPath);
-    await fs.ensureDir(fullPath);
+    // Dry run: folders appear with the first staged file inside them
+    if (!dryRunOverlay.isEnabled()) {
+      await fs.ensureDir(fullPath);
+    }
     this.state.directories.add(fullPath);
     logger.fileOperation('create', dirPath);
   }
@@ -49,8 +55,7 @@ export class FileSystemManager {
    */
   async createFile(filePath: string, content: string): Promise<void> {
     const fullPath = this.resolvePath(filePath);
-    await fs.ensureDir(path.dirname(fullPath));
-    await fs.writeFile(fullPath, content, 'utf-8');
+    dryRunOverlay.writeFile(fullPath, content);
     this.state.files.set(fullPath, content);
     logger.fileOperation('create', filePath);
   }
@@ -60,10 +65,10 @@ export class FileSystemManager {
    */
   async updateFile(filePath: string, content: string): Promise<void> {
     const fullPath = this.resolvePath(filePath);
-    if (!await fs.pathExists(fullPath)) {
+    if (!dryRunOverlay.exists(fullPath)) {
       throw new Error(`File does not exist: ${filePath}`);
     }
-    await fs.writeFile(fullPath, content, 'utf-8');
+    dryRunOverlay.writeFile(fullPath, content);
     this.state.files.set(fullPath, content);
     logger.fileOperation('update', filePath);
   }
@@ -73,7 +78,7 @@ export class FileSystemManager {
    */
   async readFile(filePath: string): Promise<string> {
     const fullPath = this.resolvePath(filePath);
-    return await fs.readFile(fullPath, 'utf-8');
+    return dryRunOverlay.readText(fullPath);
   }
 
   /**
@@ -81,7 +86,11 @@ export class FileSystemManager {
    */
   async deleteFile(filePath: string): Promise<void> {
     const fullPath = this.resolvePath(filePath);
-    await fs.remove(fullPath);
+    if (dryRunOverlay.isEnabled()) {
+      if (dryRunOverlay.exists(fullPath)) dryRunOverlay.deleteFile(fullPath);
+    } else {
+      await fs.remove(fullPath);
+    }
     this.state.files.delete(fullPath);
     logger.fileOperation('delete', filePath);
   }
@@ -91,7 +100,7 @@ export class FileSystemManager {
    */
   async exists(targetPath: string): Promise<boolean> {
     const fullPath = this.resolvePath(targetPath);
-    return await fs.pathExists(fullPath);
+    return dryRunOverlay.exists(fullPath);
   }
 
   /**
@@ -193,8 +202,8 @@ export class FileSystemManager {
    * Get all files matching a pattern
    */
   async findFiles(pattern: string): Promise<string[]> {
-    const files = await glob(pattern, { cwd: this.rootDir });
-    return files;
+    const files = await globFiles(this.rootDir, pattern);
+    return files.map(file => file.path);
   }
 
   /**
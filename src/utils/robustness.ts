@@ -3,6 +3,8 @@
  * Retry logic, JSON sanitization, input validation, and error handling
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
 import { logger } from './logger.js';
 
 // ═══════════════════════════════════════════════════════════
@@ -15,6 +17,8 @@ export interface RetryOptions {
   maxDelayMs: number;
   backoffMultiplier: number;
   retryableErrors: string[];
+  // Extra veto for errors that match retryableErrors (e.g. a stream that already produced output)
+  shouldRetry?: (error: Error) => boolean;
 }
 
 const DEFAULT_RETRY_OPTIONS: RetryOptions = {
@@ -55,7 +59,8 @@ export async function withRetry<T>(
       
       // Check if error is retryable
       const errorStr = lastError.message.toLowerCase();
-      const isRetryable = opts.retryableErrors.some(e => errorStr.includes(e.toLowerCase()));
+      const isRetryable = opts.retryableErrors.some(e => errorStr.includes(e.toLowerCase()))
+        && (!opts.shouldRetry || opts.shouldRetry(lastError));
       
       if (!isRetryable || attempt === opts.maxRetries) {
         throw lastError;
@@ -175,6 +180,96 @@ export function safeParseJSON<T = unknown>(text: string): { success: true; data:
   }
 }
 
+// Bare words models write instead of JSON literals
+const JSON_LITERALS: Map<string, string> = new Map([
+  ['true', 'true'], ['false', 'false'], ['null', 'null'],
+  ['True', 'true'], ['False', 'false'], ['None', 'null'], ['undefined', 'null']
+]);
+
+/**
+ * JSON that ends inside a string, object or array - usually output cut off by the token limit
+ */
+export class TruncatedJSONError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TruncatedJSONError';
+  }
+}
+
+/**
+ * Repair common mistakes in model-written JSON: code fences, smart quotes, single-quoted
+ * strings, unquoted keys, Python literals, raw newlines and bad escapes in strings,
+ * and trailing commas. Returns the repaired text - it still needs JSON.parse.
+ *
+ * Truncated JSON is not completed: closing it would turn e.g. half a file's content into
+ * a valid-looking value. It throws TruncatedJSONError instead.
+ */
+export function repairJSON(text: string): string {
+  const input = text.trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'");
+
+  let output = '';
+  const closers: string[] = [];
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (quote) {
+      if (ch === '\\') {
+        const next = input[i + 1];
+        if (next === undefined) break;
+        // \' isn't a JSON escape; unknown escapes (e.g. regex \d) keep their backslash
+        output += next === "'" ? "'" : '"\\/bfnrtu'.includes(next) ? ch + next : '\\\\' + next;
+        i++;
+      } else if (ch === quote) {
+        output += '"';
+        quote = null;
+      } else if (ch === '"') {
+        output += '\\"';
+      } else if (ch === '\n') {
+        output += '\\n';
+      } else if (ch === '\r') {
+        output += '\\r';
+      } else if (ch === '\t') {
+        output += '\\t';
+      } else if (ch >= ' ') {
+        output += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      output += '"';
+    } else if (ch === '{' || ch === '[') {
+      closers.push(ch === '{' ? '}' : ']');
+      output += ch;
+    } else if (ch === '}' || ch === ']') {
+      output = output.replace(/,\s*$/, '');
+      closers.pop();
+      output += ch;
+    } else if (/[A-Za-z_$]/.test(ch) && !/[\d.]$/.test(output)) {
+      const word = input.slice(i).match(/^[A-Za-z_$][\w$]*/)![0];
+      i += word.length - 1;
+      const isKey = /^\s*:/.test(input.slice(i + 1));
+      output += !isKey && JSON_LITERALS.has(word) ? JSON_LITERALS.get(word) : JSON.stringify(word);
+    } else {
+      output += ch;
+    }
+  }
+
+  if (quote || closers.length > 0) {
+    const open = quote ? 'a string' : closers[closers.length - 1] === '}' ? 'an object' : 'an array';
+    throw new TruncatedJSONError(`JSON ends inside ${open} - the output was cut off`);
+  }
+
+  return output;
+}
+
 /**
  * Extract JSON from mixed text (prose + JSON)
  */
@@ -230,38 +325,70 @@ export function validatePrompt(input: string, maxLength: number = 100000): Valid
   return { valid: true, sanitized };
 }
 
+export interface WorkspacePolicy {
+  // Project directory all tool paths must stay inside
+  workspaceRoot: string;
+  // Extra directories tools may access outside the workspace
+  allowedDirectories?: string[];
+}
+
 /**
- * Validate file path for safety
+ * Resolve symlinks for a path that may not exist yet,
+ * using the deepest existing ancestor
  */
-export function validateFilePath(filePath: string): ValidationResult {
-  if (!filePath || typeof filePath !== 'string') {
-    return { valid: false, error: 'File path is required' };
+function resolveRealPath(target: string): string {
+  let existing = target;
+  const missing: string[] = [];
+
+  while (!fs.existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    missing.unshift(path.basename(existing));
+    existing = parent;
   }
 
-  const trimmed = filePath.trim();
-
-  // Check for path traversal attempts
-  if (trimmed.includes('..')) {
-    return { valid: false, error: 'Path traversal (..) is not allowed' };
+  try {
+    return path.join(fs.realpathSync(existing), ...missing);
+  } catch {
+    return target;
   }
+}
 
-  // Check for absolute paths trying to escape (Unix)
-  if (trimmed.startsWith('/etc/') || trimmed.startsWith('/root/') || trimmed.startsWith('/var/')) {
-    return { valid: false, error: 'Access to system directories is not allowed' };
-  }
+function isInsideDirectory(target: string, dir: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
 
-  // Check for Windows system paths
-  const lowerPath = trimmed.toLowerCase();
-  if (lowerPath.includes('\\windows\\') || lowerPath.includes('\\system32\\')) {
-    return { valid: false, error: 'Access to Windows system directories is not allowed' };
+/**
+ * Validate that a file path stays inside the workspace (or an allowed directory).
+ * Relative paths resolve against the workspace root and symlinks are followed,
+ * so "../x" and links pointing outside the project are both rejected.
+ */
+export function validateFilePath(filePath: string, policy: WorkspacePolicy): ValidationResult {
+  if (!filePath || typeof filePath !== 'string') {
+    return { valid: false, error: 'File path is required' };
   }
 
+  const trimmed = filePath.trim();
+
   // Check for null bytes (path injection)
   if (trimmed.includes('\x00')) {
     return { valid: false, error: 'Invalid characters in path' };
   }
 
-  return { valid: true, sanitized: trimmed };
+  const root = resolveRealPath(path.resolve(policy.workspaceRoot));
+  const resolved = resolveRealPath(path.resolve(root, trimmed));
+  const allowed = (policy.allowedDirectories || []).map(dir => resolveRealPath(path.resolve(dir)));
+
+  if (isInsideDirectory(resolved, root) || allowed.some(dir => isInsideDirectory(resolved, dir))) {
+    return { valid: true, sanitized: resolved };
+  }
+
+  const extra = allowed.length > 0 ? ` or the allowed directories (${allowed.join(', ')})` : '';
+  return {
+    valid: false,
+    error: `Access denied: "${trimmed}" resolves to ${resolved}, which is outside the workspace (${root})${extra}. Use paths inside the project directory.`
+  };
 }
 
 // ═══════════════════════════════════════════════════════════
@@ -386,24 +513,32 @@ export function onShutdown(handler: ShutdownHandler): void {
   shutdownHandlers.push(handler);
 }
 
+/**
+ * Run all shutdown handlers once. Call before exiting the process.
+ */
+export async function runShutdownHandlers(): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+  
+  for (const handler of shutdownHandlers) {
+    try {
+      await handler();
+    } catch (error) {
+      console.error('Error in shutdown handler:', error);
+    }
+  }
+}
+
 /**
  * Initialize graceful shutdown handling
  */
 export function initGracefulShutdown(): void {
   const shutdown = async (signal: string) => {
     if (isShuttingDown) return;
-    isShuttingDown = true;
     
     console.log(`\n\n  Received ${signal}. Shutting down gracefully...`);
     
-    // Run all shutdown handlers
-    for (const handler of shutdownHandlers) {
-      try {
-        await handler();
-      } catch (error) {
-        console.error('Error in shutdown handler:', error);
-      }
-    }
+    await runShutdownHandlers();
     
     console.log('  Goodbye! 👋\n');
     process.exit(0);
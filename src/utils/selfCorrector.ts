@@ -5,7 +5,9 @@
  * feed the error back to the AI for automatic retry/fix.
  */
 
-import OpenAI from 'openai';
+import { providerRegistry } from '../providers/registry.js';
+import { LLMProvider } from '../providers/types.js';
+import { getSummarizationModel } from '../context/modelConfigs.js';
 
 export interface ExecutionResult {
   success: boolean;
@@ -25,22 +27,18 @@ export interface CorrectionAttempt {
  * Self-correcting executor
  */
 export class SelfCorrector {
-  private openrouter: OpenAI | null = null;
+  private provider: LLMProvider | null = null;
   private maxAttempts: number;
   private history: CorrectionAttempt[] = [];
   
   constructor(maxAttempts: number = 3) {
     this.maxAttempts = maxAttempts;
     
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (apiKey) {
-      this.openrouter = new OpenAI({
-        baseURL: 'https://openrouter.ai/api/v1',
-        apiKey,
-        defaultHeaders: {
-          'HTTP-Referer': 'https://github.com/ahurasense',
-        }
-      });
+    // No provider configured means failures are returned without a retry
+    try {
+      this.provider = providerRegistry.createDefault();
+    } catch {
+      this.provider = null;
     }
   }
   
@@ -96,20 +94,17 @@ export class SelfCorrector {
    * Get AI-generated correction for an error
    */
   private async getCorrection(task: string, originalInput: string, error: string): Promise<string | null> {
-    if (!this.openrouter) return null;
+    if (!this.provider) return null;
     
     try {
-      const response = await this.openrouter.chat.completions.create({
-        model: 'anthropic/claude-haiku-4.5', // Fast for corrections
-        max_tokens: 1000,
+      const response = await this.provider.chat({
+        model: getSummarizationModel(), // Fast for corrections
+        maxTokens: 1000,
         temperature: 0,
-        messages: [
-          {
-            role: 'system',
-            content: `You are a code debugging assistant. The previous attempt failed with an error.
+        system: `You are a code debugging assistant. The previous attempt failed with an error.
 Analyze the error and provide a CORRECTED version of the input.
-Only output the corrected code/command - no explanations.`
-          },
+Only output the corrected code/command - no explanations.`,
+        messages: [
           {
             role: 'user',
             content: `TASK: ${task}
@@ -125,7 +120,7 @@ Provide the corrected version:`
         ]
       });
       
-      return response.choices?.[0]?.message?.content || null;
+      return response.content || null;
     } catch {
       return null;
     }
@@ -135,26 +130,18 @@ Provide the corrected version:`
    * Analyze error and suggest fix without executing
    */
   async analyzeError(context: string, error: string): Promise<string | null> {
-    if (!this.openrouter) return null;
+    if (!this.provider) return null;
     
     try {
-      const response = await this.openrouter.chat.completions.create({
-        model: 'anthropic/claude-haiku-4.5',
-        max_tokens: 500,
+      const response = await this.provider.chat({
+        model: getSummarizationModel(),
+        maxTokens: 500,
         temperature: 0,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful debugging assistant. Explain the error briefly and suggest a fix in 1-2 sentences.'
-          },
-          {
-            role: 'user',
-            content: `Context: ${context}\n\nError: ${error}`
-          }
-        ]
+        system: 'You are a helpful debugging assistant. Explain the error briefly and suggest a fix in 1-2 sentences.',
+        messages: [{ role: 'user', content: `Context: ${context}\n\nError: ${error}` }]
       });
       
-      return response.choices?.[0]?.message?.content || null;
+      return response.content || null;
     } catch {
       return null;
     }
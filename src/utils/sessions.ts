@@ -0,0 +1,262 @@
+/**
+ * Session Persistence
+ * Per-session state lives in ~/.ahurasense/sessions/<project-hash>/. Each session is an
+ * append-only JSONL transcript (a header, then every message as it is added) plus a
+ * <id>.state.json sidecar with the latest stats and context, overwritten after each request.
+ * Replaying the transcript and reading the sidecar restores the session.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { SummarizerState } from './contextSummarizer.js';
+import { ContextSnapshot } from '../context/types.js';
+import { logger } from './logger.js';
+
+export interface TranscriptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  tokensUsed?: number;
+}
+
+/**
+ * Everything besides the messages that a resumed session needs
+ */
+export interface SessionState {
+  stats: {
+    totalTokens: number;
+    totalMessages: number;
+    filesCreated: string[];
+    filesModified: string[];
+    startTime: Date;
+  };
+  summarizer: SummarizerState;
+  // Agent context by agent name (coder, planner, ...)
+  agents: Record<string, ContextSnapshot>;
+}
+
+export type TranscriptEntry =
+  | { type: 'session'; id: string; cwd: string; startedAt: Date }
+  | { type: 'message'; message: TranscriptMessage }
+  // History was rewritten (compacted or cleared) - replaces all earlier messages
+  | { type: 'history'; messages: TranscriptMessage[] };
+
+export interface SessionInfo {
+  id: string;
+  startedAt: Date;
+  updatedAt: Date;
+  firstPrompt: string;
+}
+
+export interface LoadedSession {
+  info: SessionInfo;
+  messages: TranscriptMessage[];
+  state: SessionState | null;
+}
+
+/**
+ * Directory holding the sessions of one project (keyed by a hash of its absolute path)
+ */
+export function getSessionsDir(projectPath: string): string {
+  const projectHash = crypto.createHash('sha256').update(path.resolve(projectPath)).digest('hex').substring(0, 16);
+  return path.join(os.homedir(), '.ahurasense', 'sessions', projectHash);
+}
+
+/**
+ * New session ID - sortable by start time, e.g. 20250101-120000-k3j9
+ */
+export function createSessionId(): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').substring(0, 15);
+  return `${stamp}-${Math.random().toString(36).substring(2, 6)}`;
+}
+
+/**
+ * Writer for one session's transcript. The file is created on the first message,
+ * so sessions where nothing was asked leave nothing behind.
+ */
+export class SessionTranscript {
+  private filePath: string;
+  private statePath: string;
+
+  constructor(private projectPath: string, private sessionId: string) {
+    this.filePath = path.join(getSessionsDir(projectPath), `${sessionId}.jsonl`);
+    this.statePath = getStatePath(this.filePath);
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  appendMessage(message: TranscriptMessage): void {
+    this.append({ type: 'message', message });
+  }
+
+  // Rewrites and snapshots never start a transcript on their own
+
+  replaceHistory(messages: TranscriptMessage[]): void {
+    if (fs.existsSync(this.filePath)) this.append({ type: 'history', messages });
+  }
+
+  saveState(state: SessionState): void {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      fs.writeFileSync(this.statePath, JSON.stringify(state), 'utf-8');
+    } catch (error) {
+      logger.debug(`Could not write session state: ${error}`);
+    }
+  }
+
+  private append(entry: TranscriptEntry): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const header: TranscriptEntry = { type: 'session', id: this.sessionId, cwd: path.resolve(this.projectPath), startedAt: new Date() };
+        fs.appendFileSync(this.filePath, JSON.stringify(header) + '\n', 'utf-8');
+      }
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+    } catch (error) {
+      logger.debug(`Could not write session transcript: ${error}`);
+    }
+  }
+}
+
+/**
+ * Recent sessions of a project, newest first. Only the start of each transcript is read.
+ */
+export function listSessions(projectPath: string, limit: number = 10): SessionInfo[] {
+  const dir = getSessionsDir(projectPath);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(name => name.endsWith('.jsonl'))
+    .map(name => ({ name, mtime: fs.statSync(path.join(dir, name)).mtime }))
+    .sort((a, b) => b.mtime.getTime() - a.mtime.getTime())
+    .slice(0, limit)
+    .map(({ name, mtime }) => readSessionInfo(path.join(dir, name), mtime))
+    .filter((info): info is SessionInfo => info !== null);
+}
+
+/**
+ * Replay a session's transcript. Returns null if it doesn't exist.
+ */
+export function loadSession(projectPath: string, sessionId: string): LoadedSession | null {
+  return replayTranscript(path.join(getSessionsDir(projectPath), `${sessionId}.jsonl`));
+}
+
+function getStatePath(transcriptPath: string): string {
+  return transcriptPath.replace(/\.jsonl$/, '.state.json');
+}
+
+/**
+ * Session info from the header and first message of a transcript
+ */
+function readSessionInfo(filePath: string, updatedAt: Date): SessionInfo | null {
+  let head = '';
+  try {
+    // Read until the first two lines are complete
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const chunk = Buffer.alloc(64 * 1024);
+      let bytesRead: number;
+      while (head.split('\n').length < 3 && (bytesRead = fs.readSync(fd, chunk, 0, chunk.length, null)) > 0) {
+        head += chunk.toString('utf-8', 0, bytesRead);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch (error) {
+    logger.debug(`Could not read session transcript: ${error}`);
+    return null;
+  }
+
+  let startedAt: Date | null = null;
+  let firstPrompt = '';
+  for (const line of head.split('\n').slice(0, 2)) {
+    try {
+      const entry = JSON.parse(line) as TranscriptEntry;
+      if (entry.type === 'session') startedAt = new Date(entry.startedAt);
+      if (entry.type === 'message') firstPrompt = entry.message.content;
+    } catch {
+      // Partial line
+    }
+  }
+  // The transcript is created with its first message, so a session without one is broken
+  if (!firstPrompt) return null;
+
+  return {
+    id: path.basename(filePath, '.jsonl'),
+    startedAt: startedAt || updatedAt,
+    updatedAt,
+    firstPrompt
+  };
+}
+
+function replayTranscript(filePath: string): LoadedSession | null {
+  if (!fs.existsSync(filePath)) return null;
+
+  let lines: string[];
+  try {
+    lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+  } catch (error) {
+    logger.debug(`Could not read session transcript: ${error}`);
+    return null;
+  }
+
+  const id = path.basename(filePath, '.jsonl');
+  let startedAt: Date | null = null;
+  let firstPrompt = '';
+  let messages: TranscriptMessage[] = [];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    let entry: TranscriptEntry;
+    try {
+      entry = JSON.parse(line) as TranscriptEntry;
+    } catch {
+      // A crash mid-write can leave a partial last line
+      continue;
+    }
+
+    switch (entry.type) {
+      case 'session':
+        startedAt = new Date(entry.startedAt);
+        break;
+      case 'message':
+        messages.push(reviveMessage(entry.message));
+        if (!firstPrompt && entry.message.role === 'user') firstPrompt = entry.message.content;
+        break;
+      case 'history':
+        messages = entry.messages.map(reviveMessage);
+        break;
+    }
+  }
+
+  return {
+    info: {
+      id,
+      startedAt: startedAt || fs.statSync(filePath).birthtime,
+      updatedAt: fs.statSync(filePath).mtime,
+      firstPrompt
+    },
+    messages,
+    state: readState(getStatePath(filePath))
+  };
+}
+
+function readState(statePath: string): SessionState | null {
+  if (!fs.existsSync(statePath)) return null;
+  try {
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf-8')) as SessionState;
+    state.stats.startTime = new Date(state.stats.startTime);
+    return state;
+  } catch (error) {
+    logger.debug(`Could not read session state: ${error}`);
+    return null;
+  }
+}
+
+function reviveMessage(message: TranscriptMessage): TranscriptMessage {
+  return { ...message, timestamp: new Date(message.timestamp) };
+}
@@ -5,6 +5,10 @@
  * and planning tasks throughout coding sessions.
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger.js';
+
 export interface TodoItem {
   id: string;
   content: string;
@@ -18,6 +22,8 @@ export interface TodoList {
   lastUpdated: Date;
 }
 
+export type TodoInput = { id?: string; content: string; status: TodoItem['status'] };
+
 /**
  * Todo Manager - tracks tasks during a session
  */
@@ -25,8 +31,19 @@ export class TodoManager {
   private items: TodoItem[] = [];
   private lastUpdated: Date = new Date();
   private onUpdate?: (items: TodoItem[]) => void;
+  // JSON file the list is saved to on every change (none = memory only)
+  private storagePath?: string;
+  
+  constructor(onUpdate?: (items: TodoItem[]) => void, storagePath?: string) {
+    this.onUpdate = onUpdate;
+    this.storagePath = storagePath;
+    this.load();
+  }
   
-  constructor(onUpdate?: (items: TodoItem[]) => void) {
+  /**
+   * Replace the update callback (e.g. to render changes in the CLI)
+   */
+  setOnUpdate(onUpdate?: (items: TodoItem[]) => void): void {
     this.onUpdate = onUpdate;
   }
   
@@ -91,16 +108,45 @@ export class TodoManager {
   }
   
   /**
-   * Set todos (replace all)
+   * Check a replacement list - returns the problem, or null if it's valid
+   */
+  validate(todos: TodoInput[]): string | null {
+    const empty = todos.findIndex(todo => !todo.content || !todo.content.trim());
+    if (empty !== -1) {
+      return `Task ${empty + 1} has no content`;
+    }
+    
+    const inProgress = todos.filter(todo => todo.status === 'in_progress');
+    if (inProgress.length > 1) {
+      return `Only one task can be in_progress at a time, got ${inProgress.length}: ` +
+        `${inProgress.map(todo => `"${todo.content}"`).join(', ')}. ` +
+        'Keep the one you are working on as in_progress and set the others to pending or completed.';
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Set todos (replace all). Throws if the list is invalid (see validate).
+   * Items keep their creation time when matched by id or content.
    */
-  setAll(todos: Array<{ id?: string; content: string; status: TodoItem['status'] }>): void {
-    this.items = todos.map(todo => ({
-      id: todo.id || this.generateId(),
-      content: todo.content,
-      status: todo.status,
-      createdAt: new Date(),
-      completedAt: todo.status === 'completed' ? new Date() : undefined
-    }));
+  setAll(todos: TodoInput[]): void {
+    const error = this.validate(todos);
+    if (error) {
+      throw new Error(error);
+    }
+    
+    const previous = this.items;
+    this.items = todos.map(todo => {
+      const existing = previous.find(item => todo.id ? item.id === todo.id : item.content === todo.content);
+      return {
+        id: todo.id || existing?.id || this.generateId(),
+        content: todo.content,
+        status: todo.status,
+        createdAt: existing?.createdAt || new Date(),
+        completedAt: todo.status === 'completed' ? existing?.completedAt || new Date() : undefined
+      };
+    });
     
     this.lastUpdated = new Date();
     this.notifyUpdate();
@@ -240,70 +286,53 @@ export class TodoManager {
   }
   
   /**
-   * Notify update callback
+   * Load a previously saved list from storagePath
+   */
+  private load(): void {
+    if (!this.storagePath || !fs.existsSync(this.storagePath)) return;
+    
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.storagePath, 'utf-8')) as TodoList;
+      this.items = (saved.items || []).map(item => ({
+        ...item,
+        createdAt: new Date(item.createdAt),
+        completedAt: item.completedAt ? new Date(item.completedAt) : undefined
+      }));
+      this.lastUpdated = new Date(saved.lastUpdated);
+    } catch (error) {
+      logger.debug(`Could not load todo list: ${error}`);
+    }
+  }
+  
+  /**
+   * Save the list to storagePath
+   */
+  private save(): void {
+    if (!this.storagePath) return;
+    
+    try {
+      fs.mkdirSync(path.dirname(this.storagePath), { recursive: true });
+      const list: TodoList = { items: this.items, lastUpdated: this.lastUpdated };
+      fs.writeFileSync(this.storagePath, JSON.stringify(list, null, 2), 'utf-8');
+    } catch (error) {
+      logger.debug(`Could not save todo list: ${error}`);
+    }
+  }
+  
+  /**
+   * Save and notify update callback
    */
   private notifyUpdate(): void {
+    this.save();
     if (this.onUpdate) {
       this.onUpdate(this.items);
     }
   }
 }
 
-/**
- * Tool definition for AI to use todo list
- */
-export const todoWriteTool = {
-  name: 'todo_write',
-  description: `Use this tool to create and manage a structured task list for your current coding session. 
-This helps you track progress, organize complex tasks, and demonstrate thoroughness to the user.
-
-When to Use This Tool:
-1. Complex multi-step tasks - When a task requires 3 or more distinct steps
-2. User explicitly requests todo list - When the user directly asks you to use the todo list
-3. User provides multiple tasks - When users provide a list of things to be done
-4. When you start working on a task - Mark it as in_progress BEFORE beginning work
-5. After completing a task - Mark it as completed immediately
-
-When NOT to Use This Tool:
-1. Single, straightforward task
-2. Trivial task that can be completed in less than 3 steps
-3. Purely conversational or informational requests
-
-Task States:
-- pending: Task not yet started
-- in_progress: Currently working on (limit to ONE task at a time)
-- completed: Task finished successfully
-
-IMPORTANT: Mark todos as completed as soon as you are done with each task. Do not batch completions.`,
-  
-  parameters: {
-    type: 'object',
-    properties: {
-      todos: {
-        type: 'array',
-        items: {
-          type: 'object',
-          properties: {
-            id: { type: 'string', description: 'Unique ID for the todo' },
-            content: { type: 'string', description: 'The task description' },
-            status: { 
-              type: 'string', 
-              enum: ['pending', 'in_progress', 'completed'],
-              description: 'Task status'
-            }
-          },
-          required: ['content', 'status']
-        },
-        description: 'The complete todo list'
-      }
-    },
-    required: ['todos']
-  }
-};
-
 /**
  * Create a new todo manager instance
  */
-export function createTodoManager(onUpdate?: (items: TodoItem[]) => void): TodoManager {
-  return new TodoManager(onUpdate);
+export function createTodoManager(onUpdate?: (items: TodoItem[]) => void, storagePath?: string): TodoManager {
+  return new TodoManager(onUpdate, storagePath);
 }
@@ -0,0 +1,127 @@
+/**
+ * Turn History
+ * Remembers the conversation and session state at the start of every user turn, plus the
+ * original contents of each file changed during the turn, so /rewind can roll both back.
+ * Works without git - snapshots are kept in memory for the current run.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionState, TranscriptMessage } from './sessions.js';
+
+interface TurnRecord {
+  prompt: string;
+  startedAt: Date;
+  // Conversation and state just before the prompt
+  messages: TranscriptMessage[];
+  state: SessionState;
+  // Bytes before the turn first touched each file (null = didn't exist)
+  originals: Map<string, Buffer | null>;
+}
+
+export interface TurnSummary {
+  index: number;
+  prompt: string;
+  startedAt: Date;
+  filesChanged: string[];
+}
+
+export interface RewindResult {
+  prompt: string;
+  messages: TranscriptMessage[];
+  state: SessionState;
+  restoredFiles: string[];
+}
+
+export class TurnHistory {
+  private turns: TurnRecord[] = [];
+
+  /**
+   * Start a new turn - later file changes are attributed to it
+   */
+  beginTurn(prompt: string, messages: TranscriptMessage[], state: SessionState): void {
+    this.turns.push({
+      prompt,
+      startedAt: new Date(),
+      messages: [...messages],
+      state,
+      originals: new Map()
+    });
+  }
+
+  /**
+   * Record a file's content before the current turn changes it (first change only)
+   */
+  recordChange(fullPath: string): void {
+    const turn = this.turns[this.turns.length - 1];
+    if (!turn || turn.originals.has(fullPath)) return;
+
+    try {
+      turn.originals.set(fullPath, fs.statSync(fullPath).isDirectory() ? null : fs.readFileSync(fullPath));
+    } catch {
+      turn.originals.set(fullPath, null);
+    }
+  }
+
+  /**
+   * Turns of this run, oldest first
+   */
+  getTurns(): TurnSummary[] {
+    return this.turns.map((turn, index) => ({
+      index,
+      prompt: turn.prompt,
+      startedAt: turn.startedAt,
+      filesChanged: Array.from(turn.originals.keys())
+    }));
+  }
+
+  /**
+   * Files that rewinding to a turn would restore
+   */
+  getFilesSince(index: number): string[] {
+    const files = new Set<string>();
+    this.turns.slice(index).forEach(turn => turn.originals.forEach((_, file) => files.add(file)));
+    return Array.from(files).sort();
+  }
+
+  /**
+   * Undo the file changes of this turn and every later one, and drop those turns.
+   * Returns the conversation and state from just before the turn's prompt.
+   * beforeChange is called before each file is written or deleted (e.g. to checkpoint it).
+   */
+  rewind(index: number, beforeChange?: (fullPath: string) => void): RewindResult | null {
+    const target = this.turns[index];
+    if (!target) return null;
+
+    const restored = new Set<string>();
+    // Newest first, so a file ends up as it was before its earliest change
+    for (const turn of this.turns.slice(index).reverse()) {
+      for (const [file, original] of turn.originals) {
+        beforeChange?.(file);
+        if (original === null) {
+          if (fs.existsSync(file) && !fs.statSync(file).isDirectory()) fs.unlinkSync(file);
+        } else {
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, original);
+        }
+        restored.add(file);
+      }
+    }
+
+    this.turns = this.turns.slice(0, index);
+    return {
+      prompt: target.prompt,
+      messages: target.messages,
+      state: target.state,
+      restoredFiles: Array.from(restored).sort()
+    };
+  }
+
+  clear(): void {
+    this.turns = [];
+  }
+}
+
+export function createTurnHistory(): TurnHistory {
+  return new TurnHistory();
+}